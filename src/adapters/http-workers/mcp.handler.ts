@@ -124,6 +124,7 @@ function buildProviderRefreshConfig(config: UnifiedConfig) {
     clientId: config.PROVIDER_CLIENT_ID,
     clientSecret: config.PROVIDER_CLIENT_SECRET,
     accountsUrl: config.PROVIDER_ACCOUNTS_URL,
+    tokenEndpointPath: config.OAUTH_TOKEN_URL,
   };
 }
 
@@ -162,6 +163,7 @@ async function resolveAuthContext(
               refreshToken: record.provider.refresh_token,
               expiresAt: record.provider.expires_at,
               scopes: record.provider.scopes,
+              environment: record.provider.environment,
             };
           }
           resolvedHeaders.authorization = `Bearer ${accessToken}`;
@@ -43,7 +43,7 @@ export function buildServer(options: ServerOptions) {
 
   registerTools(server, contextResolver);
   registerPrompts(server);
-  registerResources(server);
+  registerResources(server, config);
   server.server.setRequestHandler(SetLevelRequestSchema, (request) => {
     const level = request.params.level;
     logger.info("mcp", { message: "Log level changed", level });
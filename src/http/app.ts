@@ -28,6 +28,7 @@ const createContextResolver = (): ContextResolver => (requestId) => {
           refreshToken: ctx.provider.refresh_token,
           expiresAt: ctx.provider.expires_at,
           scopes: ctx.provider.scopes,
+          environment: ctx.provider.environment,
         }
       : undefined,
   };
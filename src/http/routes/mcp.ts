@@ -7,6 +7,10 @@ import { Hono } from "hono";
 import { config } from "../../config/env.js";
 import { authContextStorage, contextRegistry } from "../../core/context.js";
 import { BEARER_REGEX } from "../../shared/mcp/security.js";
+import {
+  forgetSessionSubscriptions,
+  setSessionNotifier,
+} from "../../shared/mcp/subscriptions.js";
 import { getSessionStore } from "../../shared/storage/singleton.js";
 import type { RequestContext } from "../../shared/types/context.js";
 import { createCancellationToken } from "../../shared/utils/cancellation.js";
@@ -68,6 +72,14 @@ export function buildMcpRoutes(params: {
   const sessionStore = getSessionStore();
   const connectedTransports = new WeakSet<StreamableHTTPServerTransport>();
   const MCP_SESSION_HEADER = "Mcp-Session-Id";
+  setSessionNotifier(
+    (sid, uri) =>
+      transports.get(sid)?.send({
+        jsonrpc: "2.0",
+        method: "notifications/resources/updated",
+        params: { uri },
+      }) ?? Promise.resolve()
+  );
   async function ensureConnected(transport: StreamableHTTPServerTransport) {
     if (!connectedTransports.has(transport)) {
       await server.connect(transport);
@@ -207,6 +219,7 @@ export function buildMcpRoutes(params: {
           },
           onsessionclosed: (sid: string) => {
             transports.delete(sid);
+            forgetSessionSubscriptions(sid);
             sessionStore.delete(sid).catch(() => undefined);
             contextRegistry.deleteBySession(sid);
           },
@@ -376,6 +389,7 @@ export function buildMcpRoutes(params: {
         cleanedContexts: cleanedCount,
       });
       transports.delete(sessionIdHeader);
+      forgetSessionSubscriptions(sessionIdHeader);
       transport.close();
       await sessionStore.delete(sessionIdHeader).catch(() => undefined);
       return toFetchResponse(res);
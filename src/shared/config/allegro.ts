@@ -0,0 +1,35 @@
+export type AllegroEnvironment = "sandbox" | "production";
+
+export interface AllegroHosts {
+  apiUrl: string;
+  accountsUrl: string;
+  uploadUrl: string;
+}
+
+export const ALLEGRO_HOSTS: Record<AllegroEnvironment, AllegroHosts> = {
+  production: {
+    apiUrl: "https://api.allegro.pl",
+    accountsUrl: "https://allegro.pl",
+    uploadUrl: "https://upload.allegro.pl",
+  },
+  sandbox: {
+    apiUrl: "https://api.allegro.pl.allegrosandbox.pl",
+    accountsUrl: "https://allegro.pl.allegrosandbox.pl",
+    uploadUrl: "https://upload.allegro.pl.allegrosandbox.pl",
+  },
+};
+
+export const ALLEGRO_OAUTH_AUTHORIZE_PATH = "/auth/oauth/authorize";
+export const ALLEGRO_OAUTH_TOKEN_PATH = "/auth/oauth/token";
+
+export function parseAllegroEnvironment(value: unknown): AllegroEnvironment {
+  const environment = String(value || "production")
+    .trim()
+    .toLowerCase();
+  if (environment !== "sandbox" && environment !== "production") {
+    throw new Error(
+      `Invalid ALLEGRO_ENV "${String(value)}": expected "sandbox" or "production"`
+    );
+  }
+  return environment;
+}
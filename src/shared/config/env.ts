@@ -1,4 +1,11 @@
 import type { AuthStrategyType } from "../auth/strategy.js";
+import {
+  ALLEGRO_HOSTS,
+  ALLEGRO_OAUTH_AUTHORIZE_PATH,
+  ALLEGRO_OAUTH_TOKEN_PATH,
+  type AllegroEnvironment,
+  parseAllegroEnvironment,
+} from "./allegro.js";
 
 export interface UnifiedConfig {
   HOST: string;
@@ -22,8 +29,8 @@ export interface UnifiedConfig {
   OAUTH_CLIENT_ID?: string;
   OAUTH_CLIENT_SECRET?: string;
   OAUTH_SCOPES: string;
-  OAUTH_AUTHORIZATION_URL?: string;
-  OAUTH_TOKEN_URL?: string;
+  OAUTH_AUTHORIZATION_URL: string;
+  OAUTH_TOKEN_URL: string;
   OAUTH_REVOCATION_URL?: string;
   OAUTH_REDIRECT_URI: string;
   OAUTH_REDIRECT_ALLOWLIST: string[];
@@ -35,8 +42,10 @@ export interface UnifiedConfig {
   CIMD_ALLOWED_DOMAINS: string[];
   PROVIDER_CLIENT_ID?: string;
   PROVIDER_CLIENT_SECRET?: string;
-  PROVIDER_API_URL?: string;
-  PROVIDER_ACCOUNTS_URL?: string;
+  PROVIDER_API_URL: string;
+  PROVIDER_ACCOUNTS_URL: string;
+  ALLEGRO_ENV: AllegroEnvironment;
+  ALLEGRO_UPLOAD_URL: string;
   RS_TOKENS_FILE?: string;
   RS_TOKENS_ENC_KEY?: string;
   RPS_LIMIT: number;
@@ -85,6 +94,11 @@ function parseAuthStrategy(env: Record<string, unknown>) {
 
 export function parseConfig(env: Record<string, unknown>) {
   const authStrategy = parseAuthStrategy(env);
+  const allegroEnv = parseAllegroEnvironment(env.ALLEGRO_ENV);
+  const allegroHosts = ALLEGRO_HOSTS[allegroEnv];
+  const accountsUrl = String(
+    env.PROVIDER_ACCOUNTS_URL || allegroHosts.accountsUrl
+  );
   return {
     HOST: String(env.HOST || "127.0.0.1"),
     PORT: parseNumber(env.PORT, 3000),
@@ -110,8 +124,13 @@ export function parseConfig(env: Record<string, unknown>) {
     OAUTH_CLIENT_ID: env.OAUTH_CLIENT_ID as string | undefined,
     OAUTH_CLIENT_SECRET: env.OAUTH_CLIENT_SECRET as string | undefined,
     OAUTH_SCOPES: String(env.OAUTH_SCOPES || ""),
-    OAUTH_AUTHORIZATION_URL: env.OAUTH_AUTHORIZATION_URL as string | undefined,
-    OAUTH_TOKEN_URL: env.OAUTH_TOKEN_URL as string | undefined,
+    OAUTH_AUTHORIZATION_URL: String(
+      env.OAUTH_AUTHORIZATION_URL ||
+        new URL(ALLEGRO_OAUTH_AUTHORIZE_PATH, accountsUrl)
+    ),
+    OAUTH_TOKEN_URL: String(
+      env.OAUTH_TOKEN_URL || new URL(ALLEGRO_OAUTH_TOKEN_PATH, accountsUrl)
+    ),
     OAUTH_REVOCATION_URL: env.OAUTH_REVOCATION_URL as string | undefined,
     OAUTH_REDIRECT_URI: String(
       env.OAUTH_REDIRECT_URI || "http://localhost:3000/callback"
@@ -127,8 +146,12 @@ export function parseConfig(env: Record<string, unknown>) {
     PROVIDER_CLIENT_SECRET: (
       env.PROVIDER_CLIENT_SECRET as string | undefined
     )?.trim(),
-    PROVIDER_API_URL: env.PROVIDER_API_URL as string | undefined,
-    PROVIDER_ACCOUNTS_URL: env.PROVIDER_ACCOUNTS_URL as string | undefined,
+    PROVIDER_API_URL: String(env.PROVIDER_API_URL || allegroHosts.apiUrl),
+    PROVIDER_ACCOUNTS_URL: accountsUrl,
+    ALLEGRO_ENV: allegroEnv,
+    ALLEGRO_UPLOAD_URL: String(
+      env.ALLEGRO_UPLOAD_URL || allegroHosts.uploadUrl
+    ),
     RS_TOKENS_FILE: env.RS_TOKENS_FILE as string | undefined,
     RS_TOKENS_ENC_KEY: env.RS_TOKENS_ENC_KEY as string | undefined,
     RPS_LIMIT: parseNumber(env.RPS_LIMIT, 10),
@@ -18,6 +18,7 @@ interface LowLevelServer {
     method: string,
     handler: (request: unknown) => Promise<unknown>
   ) => void;
+  sendResourceUpdated?: (params: { uri: string }) => Promise<void>;
   getClientCapabilities?: () => ClientCapabilities;
   getClientVersion?: () => string;
   oninitialized?: () => void;
@@ -51,6 +52,11 @@ export function getServerWithInternals(server: McpServer) {
   return server as unknown as McpServerWithInternals;
 }
 
+export function sendResourceUpdated(server: McpServer, uri: string) {
+  const lowLevel = getLowLevelServer(server);
+  return lowLevel.sendResourceUpdated?.({ uri }) ?? Promise.resolve();
+}
+
 export interface JsonRpcError extends Error {
   code?: number;
   data?: unknown;
@@ -0,0 +1,71 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { logger } from "../utils/logger.js";
+import { sendResourceUpdated } from "./server-internals.js";
+
+export type SessionNotifier = (sessionId: string, uri: string) => Promise<void>;
+
+interface SessionSubscriptions {
+  accountId: string | null;
+  uris: Set<string>;
+}
+
+const LOCAL_SESSION_ID = "local";
+
+const subscriptions = new Map<string, SessionSubscriptions>();
+let sessionNotifier: SessionNotifier | null = null;
+
+export function setSessionNotifier(notifier: SessionNotifier | null) {
+  sessionNotifier = notifier;
+}
+
+export function subscribeToResource(
+  sessionId: string | undefined,
+  uri: string,
+  accountId: string | null
+) {
+  const key = sessionId ?? LOCAL_SESSION_ID;
+  const entry = subscriptions.get(key) ?? { accountId, uris: new Set() };
+  entry.accountId = accountId;
+  entry.uris.add(uri);
+  subscriptions.set(key, entry);
+}
+
+export function unsubscribeFromResource(
+  sessionId: string | undefined,
+  uri: string
+) {
+  const key = sessionId ?? LOCAL_SESSION_ID;
+  const entry = subscriptions.get(key);
+  entry?.uris.delete(uri);
+  if (entry?.uris.size === 0) {
+    subscriptions.delete(key);
+  }
+}
+
+export function forgetSessionSubscriptions(sessionId: string) {
+  subscriptions.delete(sessionId);
+}
+
+export function notifyResourceSubscribers(
+  server: McpServer,
+  uri: string,
+  accountId: string
+) {
+  for (const [sessionId, entry] of subscriptions) {
+    if (entry.accountId !== accountId || !entry.uris.has(uri)) {
+      continue;
+    }
+    const sent =
+      sessionNotifier && sessionId !== LOCAL_SESSION_ID
+        ? sessionNotifier(sessionId, uri)
+        : sendResourceUpdated(server, uri);
+    sent.catch((error) => {
+      logger.warning("subscriptions", {
+        message: "Failed to send resource updated notification",
+        sessionId,
+        uri,
+        error: (error as Error).message,
+      });
+    });
+  }
+}
@@ -294,6 +294,7 @@ export async function handleProviderCallback(
       refresh_token: result.refresh_token,
       expires_at: expiresAt,
       scopes,
+      environment: providerConfig.environment,
     };
     logger.info("oauth_callback", {
       message: "Provider tokens received",
@@ -389,7 +390,10 @@ export async function handleToken(
         });
         throw new Error("provider_refresh_failed");
       }
-      provider = refreshResult.tokens;
+      provider = {
+        ...refreshResult.tokens,
+        environment: rec.provider.environment,
+      };
     }
     const providerRefreshRotated =
       provider.refresh_token !== rec.provider.refresh_token;
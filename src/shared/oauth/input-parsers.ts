@@ -60,9 +60,12 @@ export function buildProviderConfig(config: UnifiedConfig) {
   return {
     clientId: config.PROVIDER_CLIENT_ID,
     clientSecret: config.PROVIDER_CLIENT_SECRET,
-    accountsUrl: config.PROVIDER_ACCOUNTS_URL || "https://provider.example.com",
+    accountsUrl: config.PROVIDER_ACCOUNTS_URL,
     oauthScopes: config.OAUTH_SCOPES,
     extraAuthParams: config.OAUTH_EXTRA_AUTH_PARAMS,
+    authorizationEndpointPath: config.OAUTH_AUTHORIZATION_URL,
+    tokenEndpointPath: config.OAUTH_TOKEN_URL,
+    environment: config.ALLEGRO_ENV,
   };
 }
 
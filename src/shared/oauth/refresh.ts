@@ -210,7 +210,7 @@ export async function ensureFreshToken(
   try {
     await tokenStore.updateByRsRefresh(
       record.rs_refresh_token,
-      result.tokens,
+      { ...result.tokens, environment: record.provider.environment },
       newRsAccess
     );
     markRefreshed(rsAccessToken);
@@ -1,3 +1,5 @@
+import type { AllegroEnvironment } from "../config/allegro.js";
+
 export interface AuthorizeInput {
   clientId?: string;
   codeChallenge: string;
@@ -78,6 +80,7 @@ export interface ProviderConfig {
   extraAuthParams?: string;
   authorizationEndpointPath?: string;
   tokenEndpointPath?: string;
+  environment?: AllegroEnvironment;
 }
 
 export interface OAuthConfig {
@@ -0,0 +1,173 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  getCategory,
+  getCategoryParameters,
+  getCategoryPath,
+  getChildCategories,
+  matchCategories,
+  searchKnownCategories,
+} from "../services/allegro/categories.js";
+import { getRequestAllegroClient } from "../services/allegro/context.js";
+import type { CategoryParameter } from "../services/allegro/types/index.js";
+import { logger } from "../utils/logger.js";
+
+const ROOT_CATEGORY_ID = "root";
+const MIN_MATCH_QUERY_LENGTH = 3;
+const MAX_COMPLETIONS = 20;
+const CATEGORY_ID_PATTERN = /^\d+$/;
+
+function requireClient() {
+  const client = getRequestAllegroClient();
+  if (!client) {
+    throw new Error(
+      "Allegro account is not connected. Authorize this server with Allegro first."
+    );
+  }
+  return client;
+}
+
+function readVariable(
+  variables: Record<string, string | string[]>,
+  name: string
+) {
+  const value = variables[name];
+  return typeof value === "string" ? value : (value?.[0] ?? "");
+}
+
+function jsonContents(uri: string, data: unknown) {
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: "application/json",
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+  };
+}
+
+async function completeCategoryId(value: string) {
+  const client = getRequestAllegroClient();
+  if (!client) {
+    return [];
+  }
+  await getChildCategories(client).catch(() => []);
+  const matching =
+    value.trim().length >= MIN_MATCH_QUERY_LENGTH &&
+    !CATEGORY_ID_PATTERN.test(value)
+      ? await matchCategories(client, value).catch(() => [])
+      : [];
+  const ids = new Set([
+    ...(ROOT_CATEGORY_ID.startsWith(value) ? [ROOT_CATEGORY_ID] : []),
+    ...searchKnownCategories(client, value).map((c) => c.id),
+    ...matching.map((c) => c.id),
+  ]);
+  return [...ids].slice(0, MAX_COMPLETIONS);
+}
+
+async function readCategory(categoryId: string) {
+  const client = requireClient();
+  if (categoryId === ROOT_CATEGORY_ID) {
+    const roots = await getChildCategories(client);
+    return {
+      category: null,
+      path: [],
+      children: roots.map((c) => ({ id: c.id, name: c.name, leaf: c.leaf })),
+    };
+  }
+  const [category, path, children] = await Promise.all([
+    getCategory(client, categoryId),
+    getCategoryPath(client, categoryId),
+    getChildCategories(client, categoryId),
+  ]);
+  return {
+    category,
+    path: path.map((c) => ({ id: c.id, name: c.name })),
+    children: children.map((c) => ({ id: c.id, name: c.name, leaf: c.leaf })),
+  };
+}
+
+function toParameterDefinition(parameter: CategoryParameter) {
+  return {
+    id: parameter.id,
+    name: parameter.name,
+    type: parameter.type,
+    unit: parameter.unit ?? null,
+    describesProduct: parameter.options?.describesProduct ?? false,
+    restrictions: parameter.restrictions ?? {},
+    dictionary: parameter.dictionary?.map((d) => ({
+      id: d.id,
+      value: d.value,
+    })),
+  };
+}
+
+async function readCategoryParameters(categoryId: string) {
+  const parameters = await getCategoryParameters(requireClient(), categoryId);
+  return {
+    categoryId,
+    required: parameters.filter((p) => p.required).map(toParameterDefinition),
+    optional: parameters.filter((p) => !p.required).map(toParameterDefinition),
+  };
+}
+
+export function registerCategoryResources(server: McpServer) {
+  server.registerResource(
+    "allegro-category",
+    new ResourceTemplate("allegro://categories/{categoryId}", {
+      list: async () => {
+        const client = getRequestAllegroClient();
+        const roots = client
+          ? await getChildCategories(client).catch(() => [])
+          : [];
+        return {
+          resources: [
+            { id: ROOT_CATEGORY_ID, name: "Root categories" },
+            ...roots,
+          ].map((c) => ({
+            uri: `allegro://categories/${c.id}`,
+            name: c.name,
+            mimeType: "application/json",
+          })),
+        };
+      },
+      complete: { categoryId: completeCategoryId },
+    }),
+    {
+      title: "Allegro Category",
+      description:
+        "Category with its path and subcategories; use 'root' for top-level categories",
+      mimeType: "application/json",
+    },
+    async (uri: URL, variables: Record<string, string | string[]>) => {
+      const categoryId = readVariable(variables, "categoryId");
+      logger.debug("categories_resource", {
+        message: "Category requested",
+        categoryId,
+      });
+      return jsonContents(uri.href, await readCategory(categoryId));
+    }
+  );
+  server.registerResource(
+    "allegro-category-parameters",
+    new ResourceTemplate("allegro://categories/{categoryId}/parameters", {
+      list: undefined,
+      complete: { categoryId: completeCategoryId },
+    }),
+    {
+      title: "Allegro Category Parameters",
+      description:
+        "Required and optional parameter definitions for offers in a category",
+      mimeType: "application/json",
+    },
+    async (uri: URL, variables: Record<string, string | string[]>) => {
+      const categoryId = readVariable(variables, "categoryId");
+      logger.debug("categories_resource", {
+        message: "Category parameters requested",
+        categoryId,
+      });
+      return jsonContents(uri.href, await readCategoryParameters(categoryId));
+    }
+  );
+}
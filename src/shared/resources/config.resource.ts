@@ -12,9 +12,15 @@ export function createConfigResource(config: UnifiedConfig) {
       logger.debug("config_resource", {
         message: "Server configuration requested",
       });
-      const safeConfig = redactSensitiveData(
-        config as unknown as Record<string, unknown>
-      );
+      const safeConfig = redactSensitiveData({
+        ...(config as unknown as Record<string, unknown>),
+        allegro: {
+          environment: config.ALLEGRO_ENV,
+          apiUrl: config.PROVIDER_API_URL,
+          accountsUrl: config.PROVIDER_ACCOUNTS_URL,
+          uploadUrl: config.ALLEGRO_UPLOAD_URL,
+        },
+      });
       return {
         contents: [
           {
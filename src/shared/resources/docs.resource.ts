@@ -21,7 +21,41 @@ const documentationContent = dedent`
 
   1. **health** - Server health check
   2. **echo** - Echo messages with optional repetition
-  3. **example_api_call** - Simulated API call processing
+  3. **list_my_offers** - Search the seller's own Allegro offers
+  4. **get_offer** - Offer details with named parameters and policies
+  5. **update_offer** - Edit an offer after a confirmed field-by-field diff
+  6. **bulk_change_price_quantity** - Reprice or restock many offers via modification commands
+  7. **list_orders** - Browse orders by status, buyer, dates and delivery method
+  8. **get_order** - Fetch one order with buyer, delivery, payment and invoice details
+  9. **set_order_fulfillment_status** - Change an order's fulfillment status with a revision check
+  10. **list_delivery_services** - Delivery services available for shipping with Allegro
+  11. **create_shipment** - Create a Wysyłam z Allegro shipment for an order
+  12. **get_shipment_command** - Check a shipment creation command
+  13. **get_shipment_label** - Download shipment labels as PDF, ZPL or EPL
+  14. **add_tracking** - Attach a carrier tracking number to an order
+  15. **get_tracking_history** - Tracking timeline for carrier waybills
+  16. **search_products** - Search the product catalog by phrase, EAN/GTIN or category
+  17. **create_offer_from_product** - List a catalog product with validated parameters and seller defaults
+  18. **propose_product** - Propose a missing catalog product, collecting fields step by step
+  19. **upload_offer_image** - Upload an image from a URL or base64 data and add it to an offer gallery
+  20. **compose_offer_description** - Build sanitized description sections from Markdown, HTML or text, optionally drafted from product data
+  21. **list_billing_entries** - Billing fees totalled per type, offer and day, with CSV export
+  22. **list_payment_operations** - Allegro Finanse balance movements with income/refund/payout/fee summary and payment reconciliation
+  23. **initiate_refund** - Refund an order after the user confirms by typing the order id; audited
+  24. **list_message_threads** - Unread (or all) buyer conversations from the message center
+  25. **get_message_thread** - Read a buyer conversation, optionally marking it as read
+  26. **reply_to_message_thread** - Reply to a buyer with optional image/PDF attachments
+  27. **draft_buyer_reply** - Draft a reply with the client's LLM from the conversation, order and offer; sent only after approval
+  28. **list_issues** - Open disputes and claims with response deadlines, most urgent first
+  29. **get_issue_chat** - Dispute or claim details with the full chat history
+  30. **post_issue_message** - Post in a dispute or claim chat, with an optional attachment
+  31. **propose_issue_resolution** - Accept a claim with a refund, partial refund, replacement or repair, or post the proposal in a dispute chat, after confirmation; audited
+  32. **list_customer_returns** - Customer returns with value, reasons and return parcel
+  33. **get_customer_return** - Returned items, parcel tracking and refundable amounts for initiate_refund
+  34. **reject_customer_return** - Reject a return's refund with a reason code after confirmation; audited
+  35. **list_user_ratings** - Buyer ratings filtered by recommended/negative, with rates, comments and answers
+  36. **answer_user_rating** - Publish or replace the seller's answer under a rating
+  37. **request_rating_removal** - Ask Allegro to remove an unjustified negative rating; audited
 
   ## Available Prompts
 
@@ -32,6 +66,13 @@ const documentationContent = dedent`
 
   1. **config://server** - Server configuration (redacted)
   2. **docs://overview** - This documentation
+  3. **allegro://orders/events** - New order events, updated as Allegro reports them
+  4. **allegro://offers/events** - Paginated offer change feed (activations, endings, stock and price changes)
+  5. **allegro://categories/{categoryId}** - Category tree node with path and subcategories (\`root\` for top level)
+  6. **allegro://categories/{categoryId}/parameters** - Required and optional offer parameters for a category
+  7. **allegro://messaging/unread** - Unread message thread count of the connected account, updated when new messages arrive
+  8. **allegro://issues/deadlines** - Disputes and claims of the connected account due within 48 hours, updated as deadlines approach
+  9. **allegro://ratings/summary** - Monthly rating counts, recommendation rate trend and average rates for the last 12 months
 
   ## Authentication
 
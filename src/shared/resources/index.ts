@@ -1,22 +1,56 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { getServerWithInternals } from "../mcp/server-internals.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { getCurrentAuthContext } from "../../core/context.js";
+import type { UnifiedConfig } from "../config/env.js";
+import { sendResourceUpdated } from "../mcp/server-internals.js";
+import {
+  notifyResourceSubscribers,
+  subscribeToResource,
+  unsubscribeFromResource,
+} from "../mcp/subscriptions.js";
+import { trackCurrentAllegroAccount } from "../services/allegro/context.js";
 import { logger } from "../utils/logger.js";
-import { paginateArray } from "../utils/pagination.js";
-import { CONFIG_RESOURCE } from "./config.resource.js";
+import { registerCategoryResources } from "./categories.resource.js";
+import { createConfigResource } from "./config.resource.js";
 import { DOCS_RESOURCE } from "./docs.resource.js";
+import {
+  ISSUE_DEADLINES_RESOURCE,
+  startIssueDeadlinesPolling,
+} from "./issue-deadlines.resource.js";
 import { LOGO_RESOURCE, LOGO_SVG_RESOURCE } from "./logo.resource.js";
+import {
+  OFFER_EVENTS_RESOURCE,
+  readOfferEvents,
+  startOfferEventsPolling,
+} from "./offer-events.resource.js";
+import {
+  ORDER_EVENTS_RESOURCE,
+  startOrderEventsPolling,
+} from "./order-events.resource.js";
+import { RATINGS_SUMMARY_RESOURCE } from "./ratings-summary.resource.js";
 import { STATUS_RESOURCE, startStatusUpdates } from "./status.resource.js";
+import {
+  startUnreadMessagesPolling,
+  UNREAD_MESSAGES_RESOURCE,
+} from "./unread-messages.resource.js";
 
-const resources = [
-  CONFIG_RESOURCE,
-  DOCS_RESOURCE,
-  LOGO_RESOURCE,
-  LOGO_SVG_RESOURCE,
-  STATUS_RESOURCE,
-];
-
-export function registerResources(server: McpServer) {
+export function registerResources(server: McpServer, config: UnifiedConfig) {
+  const resources = [
+    createConfigResource(config),
+    DOCS_RESOURCE,
+    ISSUE_DEADLINES_RESOURCE,
+    LOGO_RESOURCE,
+    LOGO_SVG_RESOURCE,
+    OFFER_EVENTS_RESOURCE,
+    ORDER_EVENTS_RESOURCE,
+    RATINGS_SUMMARY_RESOURCE,
+    STATUS_RESOURCE,
+    UNREAD_MESSAGES_RESOURCE,
+  ];
   for (const resource of resources) {
     server.registerResource(
       resource.name,
@@ -34,71 +68,53 @@ export function registerResources(server: McpServer) {
       resource.handler
     );
   }
-  const exampleTemplate = new ResourceTemplate(
-    "example://items/{collection}/{id}",
-    {
-      list: () => {
-        const items = [
-          { collection: "books", id: "1" },
-          { collection: "books", id: "2" },
-          { collection: "movies", id: "1" },
-        ];
-        const page = paginateArray(items, undefined, 100);
-        return {
-          resources: page.data.map(({ collection, id }) => ({
-            uri: `example://items/${collection}/${id}`,
-            name: `${collection}-${id}.json`,
-            title: `${collection} ${id}`,
-            mimeType: "application/json",
-            annotations: {
-              audience: ["assistant"],
-              priority: 0.6,
-              lastModified: new Date().toISOString(),
-            },
-          })),
-          nextCursor: page.nextCursor,
-        };
-      },
-      complete: {
-        collection: (_value: string) => ["books", "movies", "music"],
-        id: (_value: string) => ["1", "2", "3"],
-      },
-    }
-  );
+  registerCategoryResources(server);
   server.registerResource(
-    "example-items",
-    exampleTemplate,
+    "offer-events-page",
+    new ResourceTemplate(`${OFFER_EVENTS_RESOURCE.uri}{?cursor}`, {
+      list: undefined,
+    }),
     {
-      title: "Example Items",
-      description: "Dynamic items accessible by collection and id",
+      title: "Allegro Offer Events (page)",
+      description: "Older pages of the offer change feed",
       mimeType: "application/json",
     },
     (_uri: URL, variables: Record<string, string | string[]>) => {
-      const raw = variables as Record<string, string | string[]>;
-      const collection =
-        typeof raw.collection === "string"
-          ? raw.collection
-          : (raw.collection?.[0] ?? "");
-      const id = typeof raw.id === "string" ? raw.id : (raw.id?.[0] ?? "");
-      return {
-        contents: [
-          {
-            uri: `example://items/${collection}/${id}`,
-            name: `${collection}-${id}.json`,
-            title: `${collection} ${id}`,
-            mimeType: "application/json",
-            text: JSON.stringify({ collection, id, ok: true }),
-            annotations: {
-              audience: ["assistant"],
-              priority: 0.6,
-              lastModified: new Date().toISOString(),
-            },
-          },
-        ],
-      };
+      const cursor =
+        typeof variables.cursor === "string"
+          ? variables.cursor
+          : variables.cursor?.[0];
+      return readOfferEvents(cursor);
     }
   );
+  server.server.setRequestHandler(SubscribeRequestSchema, (request) => {
+    subscribeToResource(
+      getCurrentAuthContext()?.sessionId,
+      request.params.uri,
+      trackCurrentAllegroAccount()
+    );
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    unsubscribeFromResource(
+      getCurrentAuthContext()?.sessionId,
+      request.params.uri
+    );
+    return {};
+  });
   startStatusUpdates(server);
+  startOfferEventsPolling((accountId) =>
+    emitAccountResourceUpdated(server, OFFER_EVENTS_RESOURCE.uri, accountId)
+  );
+  startOrderEventsPolling((accountId) =>
+    emitAccountResourceUpdated(server, ORDER_EVENTS_RESOURCE.uri, accountId)
+  );
+  startUnreadMessagesPolling((accountId) =>
+    emitAccountResourceUpdated(server, UNREAD_MESSAGES_RESOURCE.uri, accountId)
+  );
+  startIssueDeadlinesPolling((accountId) =>
+    emitAccountResourceUpdated(server, ISSUE_DEADLINES_RESOURCE.uri, accountId)
+  );
   logger.info("resources", {
     message: `Registered ${resources.length} resources`,
     resourceUris: resources.map((r) => r.uri),
@@ -106,17 +122,28 @@ export function registerResources(server: McpServer) {
 }
 
 export function emitResourceUpdated(server: McpServer, uri: string) {
-  try {
-    getServerWithInternals(server).sendResourceUpdated?.({ uri });
-  } catch (error) {
+  sendResourceUpdated(server, uri).catch((error) => {
     console.warn("Failed to send resource updated notification:", error);
-  }
+  });
   logger.debug("resources", {
     message: "Resource updated notification sent",
     uri,
   });
 }
 
+export function emitAccountResourceUpdated(
+  server: McpServer,
+  uri: string,
+  accountId: string
+) {
+  notifyResourceSubscribers(server, uri, accountId);
+  logger.debug("resources", {
+    message: "Resource updated notification sent to account subscribers",
+    uri,
+    accountId,
+  });
+}
+
 export function emitResourcesListChanged(server: McpServer) {
   server.sendResourceListChanged();
   logger.debug("resources", {
@@ -0,0 +1,131 @@
+import { createAccountPoller } from "../services/allegro/account-poller.js";
+import type { AllegroClient } from "../services/allegro/client.js";
+import { requireCurrentAllegroAccount } from "../services/allegro/context.js";
+import {
+  collectOpenIssues,
+  hoursUntil,
+  issueDeadline,
+} from "../services/allegro/issues.js";
+import { logger } from "../utils/logger.js";
+
+const ISSUE_DEADLINES_URI = "allegro://issues/deadlines";
+const ISSUE_POLL_INTERVAL_MS = 5 * 60_000;
+const DEADLINE_WARNING_HOURS = 48;
+
+interface UrgentIssue {
+  id: string;
+  type: string;
+  status: string;
+  buyer: string;
+  orderId: string | null;
+  deadline: string;
+  hoursLeft: number;
+}
+
+interface DeadlineSnapshot {
+  openIssues: number;
+  urgent: UrgentIssue[];
+  polledAt: string;
+}
+
+const deadlinesByAccount = new Map<string, DeadlineSnapshot>();
+let onDeadlinesChanged: ((accountId: string) => void) | null = null;
+
+function urgentKey(urgent: UrgentIssue[]) {
+  return urgent.map((i) => `${i.id}:${i.status}:${i.deadline}`).join("|");
+}
+
+async function pollAccount(accountId: string, client: AllegroClient) {
+  const now = Date.now();
+  const issues = await collectOpenIssues(client);
+  const urgent = issues
+    .flatMap((issue) => {
+      const deadline = issueDeadline(issue);
+      const hoursLeft = hoursUntil(deadline, now);
+      if (!deadline || hoursLeft === null) {
+        return [];
+      }
+      return hoursLeft <= DEADLINE_WARNING_HOURS
+        ? [
+            {
+              id: issue.id,
+              type: issue.type,
+              status: issue.currentState.status,
+              buyer: issue.buyer.login,
+              orderId: issue.checkoutForm?.id ?? null,
+              deadline,
+              hoursLeft,
+            },
+          ]
+        : [];
+    })
+    .sort((a, b) => a.deadline.localeCompare(b.deadline));
+  const previous = deadlinesByAccount.get(accountId);
+  deadlinesByAccount.set(accountId, {
+    openIssues: issues.length,
+    urgent,
+    polledAt: new Date(now).toISOString(),
+  });
+  return !previous || urgentKey(previous.urgent) !== urgentKey(urgent);
+}
+
+const issueDeadlinesPoller = createAccountPoller({
+  name: "issue_deadlines",
+  intervalMs: ISSUE_POLL_INTERVAL_MS,
+  pollAccount,
+  onChanged: (accountId) => {
+    logger.info("issue_deadlines", {
+      message: "Issues close to their deadline changed",
+      accountId,
+    });
+    onDeadlinesChanged?.(accountId);
+  },
+  onAccountForgotten: (accountId) => deadlinesByAccount.delete(accountId),
+});
+
+export function startIssueDeadlinesPolling(
+  onUpdate: (accountId: string) => void
+) {
+  onDeadlinesChanged = onUpdate;
+  issueDeadlinesPoller.start();
+}
+
+export function stopIssueDeadlinesPolling() {
+  issueDeadlinesPoller.stop();
+  onDeadlinesChanged = null;
+}
+
+export const ISSUE_DEADLINES_RESOURCE = {
+  uri: ISSUE_DEADLINES_URI,
+  name: "Allegro Issue Deadlines",
+  description: `Open disputes and claims of the connected account due within ${DEADLINE_WARNING_HOURS} hours, most urgent first (subscribable resource with update notifications)`,
+  mimeType: "application/json",
+  handler: async () => {
+    logger.debug("issue_deadlines", { message: "Issue deadlines requested" });
+    const accountId = requireCurrentAllegroAccount();
+    if (!deadlinesByAccount.has(accountId)) {
+      await issueDeadlinesPoller.pollNow(accountId);
+    }
+    const snapshot = deadlinesByAccount.get(accountId);
+    return {
+      contents: [
+        {
+          uri: ISSUE_DEADLINES_URI,
+          mimeType: "application/json",
+          text: JSON.stringify(
+            {
+              accountId,
+              openIssues: snapshot?.openIssues ?? null,
+              urgent: snapshot?.urgent ?? [],
+              polledAt: snapshot?.polledAt ?? null,
+              warningHours: DEADLINE_WARNING_HOURS,
+              timestamp: new Date().toISOString(),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  },
+};
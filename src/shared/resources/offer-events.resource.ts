@@ -0,0 +1,115 @@
+import type { AllegroClient } from "../services/allegro/client.js";
+import { requireCurrentAllegroAccount } from "../services/allegro/context.js";
+import { createEventJournalPoller } from "../services/allegro/event-journal.js";
+import type { OfferEvent } from "../services/allegro/types/index.js";
+import { logger } from "../utils/logger.js";
+import { paginateArray } from "../utils/pagination.js";
+
+const OFFER_EVENTS_URI = "allegro://offers/events";
+const OFFER_EVENTS_PAGE_SIZE = 50;
+const OFFER_EVENTS_FETCH_LIMIT = 1000;
+const MAX_LATEST_EVENT_PAGES = 100;
+
+const OFFER_EVENT_TYPES = [
+  "OFFER_ACTIVATED",
+  "OFFER_CHANGED",
+  "OFFER_ENDED",
+  "OFFER_STOCK_CHANGED",
+  "OFFER_PRICE_CHANGED",
+  "OFFER_ARCHIVED",
+  "OFFER_BID_PLACED",
+  "OFFER_BID_CANCELED",
+  "OFFER_VISIBILITY_CHANGED",
+] as const;
+
+let onOfferEvents: ((accountId: string) => void) | null = null;
+
+async function latestOfferEventId(client: AllegroClient) {
+  let from: string | undefined;
+  for (let page = 0; page < MAX_LATEST_EVENT_PAGES; page++) {
+    const { events } = await client.get<{ events: OfferEvent[] }>(
+      "/sale/offer-events",
+      { query: { from, limit: OFFER_EVENTS_FETCH_LIMIT } }
+    );
+    const last = events.at(-1)?.id;
+    if (events.length < OFFER_EVENTS_FETCH_LIMIT || !last || last === from) {
+      return last ?? from;
+    }
+    from = last;
+  }
+  return from;
+}
+
+const offerEventsPoller = createEventJournalPoller<OfferEvent>({
+  name: "offer_events",
+  path: "/sale/offer-events",
+  types: OFFER_EVENT_TYPES,
+  bufferSize: 500,
+  latestEventId: latestOfferEventId,
+  onEvents: (accountId, events) => {
+    logger.info("offer_events", {
+      message: "New offer events",
+      accountId,
+      count: events.length,
+    });
+    onOfferEvents?.(accountId);
+  },
+});
+
+export function startOfferEventsPolling(onUpdate: (accountId: string) => void) {
+  onOfferEvents = onUpdate;
+  offerEventsPoller.start();
+}
+
+export function stopOfferEventsPolling() {
+  offerEventsPoller.stop();
+  onOfferEvents = null;
+}
+
+export async function readOfferEvents(cursor?: string) {
+  const accountId = requireCurrentAllegroAccount();
+  if (!offerEventsPoller.read(accountId).lastPolledAt) {
+    await offerEventsPoller.pollNow(accountId);
+  }
+  const events = [...offerEventsPoller.read(accountId).events].sort((a, b) =>
+    b.occurredAt.localeCompare(a.occurredAt)
+  );
+  const page = paginateArray(events, cursor, OFFER_EVENTS_PAGE_SIZE);
+  const uri = cursor
+    ? `${OFFER_EVENTS_URI}?cursor=${encodeURIComponent(cursor)}`
+    : OFFER_EVENTS_URI;
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: "application/json",
+        text: JSON.stringify(
+          {
+            accountId,
+            events: page.data,
+            total: events.length,
+            nextCursor: page.nextCursor ?? null,
+            nextUri: page.nextCursor
+              ? `${OFFER_EVENTS_URI}?cursor=${encodeURIComponent(page.nextCursor)}`
+              : null,
+            timestamp: new Date().toISOString(),
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
+
+export const OFFER_EVENTS_RESOURCE = {
+  uri: OFFER_EVENTS_URI,
+  name: "Allegro Offer Events",
+  description:
+    "Change feed of offer activations, endings, stock and price changes of the connected account, newest first (subscribable resource with update notifications; follow nextUri for older events)",
+  mimeType: "application/json",
+  handler: () => {
+    logger.debug("offer_events", { message: "Offer events requested" });
+    return readOfferEvents();
+  },
+};
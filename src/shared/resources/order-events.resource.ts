@@ -0,0 +1,77 @@
+import { requireCurrentAllegroAccount } from "../services/allegro/context.js";
+import { createEventJournalPoller } from "../services/allegro/event-journal.js";
+import type {
+  OrderEvent,
+  OrderEventStats,
+} from "../services/allegro/types/index.js";
+import { logger } from "../utils/logger.js";
+
+const ORDER_EVENTS_URI = "allegro://orders/events";
+
+const ORDER_EVENT_TYPES = [
+  "BOUGHT",
+  "FILLED_IN",
+  "READY_FOR_PROCESSING",
+  "BUYER_CANCELLED",
+] as const;
+
+let onOrderEvents: ((accountId: string) => void) | null = null;
+
+const orderEventsPoller = createEventJournalPoller<OrderEvent>({
+  name: "order_events",
+  path: "/order/events",
+  types: ORDER_EVENT_TYPES,
+  latestEventId: async (client) => {
+    const stats = await client.get<OrderEventStats>("/order/event-stats");
+    return stats.latestEvent?.id;
+  },
+  onEvents: (accountId, events) => {
+    logger.info("order_events", {
+      message: "New order events",
+      accountId,
+      count: events.length,
+    });
+    onOrderEvents?.(accountId);
+  },
+});
+
+export function startOrderEventsPolling(onUpdate: (accountId: string) => void) {
+  onOrderEvents = onUpdate;
+  orderEventsPoller.start();
+}
+
+export function stopOrderEventsPolling() {
+  orderEventsPoller.stop();
+  onOrderEvents = null;
+}
+
+export const ORDER_EVENTS_RESOURCE = {
+  uri: ORDER_EVENTS_URI,
+  name: "Allegro Order Events",
+  description:
+    "Recent BOUGHT, FILLED_IN, READY_FOR_PROCESSING and BUYER_CANCELLED order events of the connected account (subscribable resource with update notifications)",
+  mimeType: "application/json",
+  handler: async () => {
+    logger.debug("order_events", { message: "Order events requested" });
+    const accountId = requireCurrentAllegroAccount();
+    if (!orderEventsPoller.read(accountId).lastPolledAt) {
+      await orderEventsPoller.pollNow(accountId);
+    }
+    return {
+      contents: [
+        {
+          uri: ORDER_EVENTS_URI,
+          mimeType: "application/json",
+          text: JSON.stringify(
+            {
+              ...orderEventsPoller.read(accountId),
+              timestamp: new Date().toISOString(),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  },
+};
@@ -0,0 +1,162 @@
+import { getCurrentUser } from "../services/allegro/accounts.js";
+import {
+  getRequestAllegroClient,
+  requireCurrentAllegroAccount,
+} from "../services/allegro/context.js";
+import { collectUserRatings } from "../services/allegro/ratings.js";
+import type {
+  RatingRates,
+  UserRating,
+} from "../services/allegro/types/index.js";
+import { logger } from "../utils/logger.js";
+
+const RATINGS_SUMMARY_URI = "allegro://ratings/summary";
+const SUMMARY_MONTHS = 12;
+const SUMMARY_CACHE_TTL_MS = 15 * 60_000;
+const MAX_SUMMARY_CACHE_ENTRIES = 100;
+
+const RATE_NAMES = [
+  "delivery",
+  "deliveryCost",
+  "description",
+  "service",
+] as const satisfies ReadonlyArray<keyof RatingRates>;
+
+const summaryCache = new Map<
+  string,
+  {
+    value: Promise<unknown>;
+    expiresAt: number;
+  }
+>();
+
+function round(value: number, digits: number) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function windowStart(now: Date) {
+  return new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (SUMMARY_MONTHS - 1), 1)
+  );
+}
+
+function averageRates(ratings: UserRating[]) {
+  return Object.fromEntries(
+    RATE_NAMES.map((name) => {
+      const values = ratings.flatMap((r) => {
+        const value = r.rates?.[name];
+        return typeof value === "number" ? [value] : [];
+      });
+      return [
+        name,
+        values.length > 0
+          ? round(values.reduce((sum, v) => sum + v, 0) / values.length, 2)
+          : null,
+      ];
+    })
+  );
+}
+
+function summarizeGroup(ratings: UserRating[]) {
+  const recommended = ratings.filter((r) => r.recommended).length;
+  return {
+    count: ratings.length,
+    recommended,
+    negative: ratings.length - recommended,
+    recommendationRate:
+      ratings.length > 0
+        ? round((recommended / ratings.length) * 100, 1)
+        : null,
+    answered: ratings.filter((r) => r.answer).length,
+    averageRates: averageRates(ratings),
+  };
+}
+
+function summarizeByMonth(ratings: UserRating[], start: Date, now: Date) {
+  const byMonth = new Map<string, UserRating[]>();
+  for (
+    const cursor = new Date(start);
+    cursor <= now;
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1)
+  ) {
+    byMonth.set(cursor.toISOString().slice(0, 7), []);
+  }
+  for (const rating of ratings) {
+    byMonth.get(rating.createdAt.slice(0, 7))?.push(rating);
+  }
+  let previousRate: number | null = null;
+  return [...byMonth.entries()].map(([month, group]) => {
+    const summary = summarizeGroup(group);
+    const trend =
+      summary.recommendationRate !== null && previousRate !== null
+        ? round(summary.recommendationRate - previousRate, 1)
+        : null;
+    previousRate = summary.recommendationRate ?? previousRate;
+    return { month, ...summary, recommendationRateChange: trend };
+  });
+}
+
+function buildRatingsSummary() {
+  const client = getRequestAllegroClient();
+  if (!client) {
+    throw new Error(
+      "Allegro account is not connected. Authorize this server with Allegro first."
+    );
+  }
+  const cacheKey = `${client.apiUrl}|${requireCurrentAllegroAccount()}`;
+  const entry = summaryCache.get(cacheKey);
+  if (entry && Date.now() < entry.expiresAt) {
+    return entry.value;
+  }
+  if (summaryCache.size >= MAX_SUMMARY_CACHE_ENTRIES) {
+    summaryCache.clear();
+  }
+  const now = new Date();
+  const start = windowStart(now);
+  const value = getCurrentUser(client)
+    .then(async (user) => {
+      const { ratings, complete } = await collectUserRatings(client, user.id, {
+        changedFrom: start.toISOString(),
+      });
+      const inWindow = ratings.filter(
+        (r) => Date.parse(r.createdAt) >= start.getTime()
+      );
+      return {
+        login: user.login,
+        from: start.toISOString(),
+        complete,
+        overall: summarizeGroup(inWindow),
+        months: summarizeByMonth(inWindow, start, now),
+        generatedAt: now.toISOString(),
+      };
+    })
+    .catch((error) => {
+      summaryCache.delete(cacheKey);
+      throw error;
+    });
+  summaryCache.set(cacheKey, {
+    value,
+    expiresAt: Date.now() + SUMMARY_CACHE_TTL_MS,
+  });
+  return value;
+}
+
+export const RATINGS_SUMMARY_RESOURCE = {
+  uri: RATINGS_SUMMARY_URI,
+  name: "Allegro Ratings Summary",
+  description: `Seller rating trends for the last ${SUMMARY_MONTHS} months: ratings per month, recommendation rate and its change, answered count and average detailed rates`,
+  mimeType: "application/json",
+  handler: async () => {
+    logger.debug("ratings_summary", { message: "Ratings summary requested" });
+    return {
+      contents: [
+        {
+          uri: RATINGS_SUMMARY_URI,
+          mimeType: "application/json",
+          text: JSON.stringify(await buildRatingsSummary(), null, 2),
+        },
+      ],
+    };
+  },
+};
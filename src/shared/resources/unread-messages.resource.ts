@@ -0,0 +1,94 @@
+import { createAccountPoller } from "../services/allegro/account-poller.js";
+import type { AllegroClient } from "../services/allegro/client.js";
+import { requireCurrentAllegroAccount } from "../services/allegro/context.js";
+import { countUnreadThreads } from "../services/allegro/messaging.js";
+import { logger } from "../utils/logger.js";
+
+const UNREAD_MESSAGES_URI = "allegro://messaging/unread";
+const UNREAD_POLL_INTERVAL_MS = 60_000;
+
+interface UnreadSnapshot {
+  unreadThreads: number;
+  scannedThreads: number;
+  complete: boolean;
+  latestMessageAt: string | null;
+  polledAt: string;
+}
+
+const unreadByAccount = new Map<string, UnreadSnapshot>();
+let onUnreadChanged: ((accountId: string) => void) | null = null;
+
+async function pollAccount(accountId: string, client: AllegroClient) {
+  const previous = unreadByAccount.get(accountId);
+  const counts = await countUnreadThreads(client);
+  unreadByAccount.set(accountId, {
+    unreadThreads: counts.unread,
+    scannedThreads: counts.scanned,
+    complete: counts.complete,
+    latestMessageAt: counts.latestMessageAt,
+    polledAt: new Date().toISOString(),
+  });
+  return (
+    previous?.unreadThreads !== counts.unread ||
+    previous.latestMessageAt !== counts.latestMessageAt
+  );
+}
+
+const unreadMessagesPoller = createAccountPoller({
+  name: "unread_messages",
+  intervalMs: UNREAD_POLL_INTERVAL_MS,
+  pollAccount,
+  onChanged: (accountId) => {
+    logger.info("unread_messages", {
+      message: "Unread message counts changed",
+      accountId,
+    });
+    onUnreadChanged?.(accountId);
+  },
+  onAccountForgotten: (accountId) => unreadByAccount.delete(accountId),
+});
+
+export function startUnreadMessagesPolling(
+  onUpdate: (accountId: string) => void
+) {
+  onUnreadChanged = onUpdate;
+  unreadMessagesPoller.start();
+}
+
+export function stopUnreadMessagesPolling() {
+  unreadMessagesPoller.stop();
+  onUnreadChanged = null;
+}
+
+export const UNREAD_MESSAGES_RESOURCE = {
+  uri: UNREAD_MESSAGES_URI,
+  name: "Allegro Unread Messages",
+  description:
+    "Unread message center threads of the connected account (subscribable resource with update notifications when new messages arrive)",
+  mimeType: "application/json",
+  handler: async () => {
+    logger.debug("unread_messages", { message: "Unread messages requested" });
+    const accountId = requireCurrentAllegroAccount();
+    if (!unreadByAccount.has(accountId)) {
+      await unreadMessagesPoller.pollNow(accountId);
+    }
+    const snapshot = unreadByAccount.get(accountId) ?? null;
+    return {
+      contents: [
+        {
+          uri: UNREAD_MESSAGES_URI,
+          mimeType: "application/json",
+          text: JSON.stringify(
+            {
+              accountId,
+              ...(snapshot ?? { unreadThreads: null, polledAt: null }),
+              timestamp: new Date().toISOString(),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  },
+};
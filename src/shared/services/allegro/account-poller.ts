@@ -0,0 +1,107 @@
+import { logger } from "../../utils/logger.js";
+import {
+  forgetAllegroAccount,
+  getTrackedAllegroAccount,
+  listTrackedAllegroAccounts,
+  type TrackedAllegroAccount,
+} from "./accounts.js";
+import type { AllegroClient } from "./client.js";
+import { createAccountAllegroClient } from "./context.js";
+import { isAllegroApiError } from "./errors.js";
+
+export interface AccountPollerOptions {
+  name: string;
+  intervalMs: number;
+  pollAccount: (accountId: string, client: AllegroClient) => Promise<boolean>;
+  onChanged?: (accountId: string) => void;
+  onAccountForgotten?: (accountId: string) => void;
+}
+
+export function createAccountPoller(options: AccountPollerOptions) {
+  const { name, intervalMs, pollAccount, onChanged, onAccountForgotten } =
+    options;
+  const inFlight = new Map<string, Promise<void>>();
+  let interval: NodeJS.Timeout | null = null;
+  let polling = false;
+
+  function forget(accountId: string) {
+    forgetAllegroAccount(accountId);
+    onAccountForgotten?.(accountId);
+  }
+
+  async function runPoll(account: TrackedAllegroAccount) {
+    try {
+      const client = await createAccountAllegroClient(account);
+      if (!client) {
+        forget(account.id);
+        return;
+      }
+      if (await pollAccount(account.id, client)) {
+        onChanged?.(account.id);
+      }
+    } catch (error) {
+      if (isAllegroApiError(error) && error.status === 401) {
+        forget(account.id);
+      }
+      logger.warning(name, {
+        message: "Account poll failed",
+        accountId: account.id,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  function poll(account: TrackedAllegroAccount) {
+    const running = inFlight.get(account.id);
+    if (running) {
+      return running;
+    }
+    const run = runPoll(account).finally(() => inFlight.delete(account.id));
+    inFlight.set(account.id, run);
+    return run;
+  }
+
+  async function pollOnce() {
+    if (polling) {
+      return;
+    }
+    polling = true;
+    try {
+      for (const account of listTrackedAllegroAccounts()) {
+        await poll(account);
+      }
+    } finally {
+      polling = false;
+    }
+  }
+
+  async function pollNow(accountId: string) {
+    const account = getTrackedAllegroAccount(accountId);
+    if (account) {
+      await poll(account);
+    }
+  }
+
+  function start() {
+    if (interval) {
+      return;
+    }
+    interval = setInterval(() => {
+      pollOnce().catch(() => undefined);
+    }, intervalMs);
+    interval.unref?.();
+    logger.info(name, {
+      message: `Account polling started (every ${intervalMs / 1000}s)`,
+    });
+  }
+
+  function stop() {
+    if (interval) {
+      clearInterval(interval);
+      interval = null;
+      logger.info(name, { message: "Account polling stopped" });
+    }
+  }
+
+  return { start, stop, pollOnce, pollNow };
+}
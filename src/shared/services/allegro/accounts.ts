@@ -0,0 +1,59 @@
+import type { AllegroClient } from "./client.js";
+import type { CurrentUser } from "./types/index.js";
+
+export interface TrackedAllegroAccount {
+  id: string;
+  accessToken: string;
+  rsToken?: string;
+  trackedAt: number;
+}
+
+const accounts = new Map<string, TrackedAllegroAccount>();
+
+export function getAllegroAccountId(accessToken: string) {
+  const payload = accessToken.split(".")[1];
+  if (!payload) {
+    return null;
+  }
+  try {
+    const claims = JSON.parse(
+      Buffer.from(payload, "base64url").toString("utf8")
+    ) as Record<string, unknown>;
+    return typeof claims.user_name === "string" ? claims.user_name : null;
+  } catch {
+    return null;
+  }
+}
+
+export function trackAllegroAccount(credentials: {
+  accessToken: string;
+  rsToken?: string;
+}) {
+  const id = getAllegroAccountId(credentials.accessToken);
+  if (!id) {
+    return null;
+  }
+  accounts.set(id, {
+    id,
+    accessToken: credentials.accessToken,
+    rsToken: credentials.rsToken ?? accounts.get(id)?.rsToken,
+    trackedAt: Date.now(),
+  });
+  return id;
+}
+
+export function forgetAllegroAccount(id: string) {
+  accounts.delete(id);
+}
+
+export function getTrackedAllegroAccount(id: string) {
+  return accounts.get(id);
+}
+
+export function listTrackedAllegroAccounts() {
+  return [...accounts.values()];
+}
+
+export function getCurrentUser(client: AllegroClient) {
+  return client.get<CurrentUser>("/me");
+}
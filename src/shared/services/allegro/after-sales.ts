@@ -0,0 +1,35 @@
+import type { AllegroClient } from "./client.js";
+import type {
+  ImpliedWarrantiesResponse,
+  ReturnPoliciesResponse,
+  ShippingRatesResponse,
+  WarrantiesResponse,
+} from "./types/index.js";
+
+export async function listReturnPolicies(client: AllegroClient) {
+  const response = await client.get<ReturnPoliciesResponse>(
+    "/after-sales-service-conditions/return-policies"
+  );
+  return response.returnPolicies;
+}
+
+export async function listImpliedWarranties(client: AllegroClient) {
+  const response = await client.get<ImpliedWarrantiesResponse>(
+    "/after-sales-service-conditions/implied-warranties"
+  );
+  return response.impliedWarranties;
+}
+
+export async function listWarranties(client: AllegroClient) {
+  const response = await client.get<WarrantiesResponse>(
+    "/after-sales-service-conditions/warranties"
+  );
+  return response.warranties;
+}
+
+export async function listShippingRates(client: AllegroClient) {
+  const response = await client.get<ShippingRatesResponse>(
+    "/sale/shipping-rates"
+  );
+  return response.shippingRates;
+}
@@ -0,0 +1,98 @@
+import type { AllegroClient } from "./client.js";
+import type {
+  BillingEntriesResponse,
+  BillingEntry,
+  BillingType,
+} from "./types/index.js";
+
+const BILLING_PAGE_SIZE = 100;
+const MAX_BILLING_OFFSET = 5000;
+
+export interface BillingEntryFilters {
+  from?: string;
+  to?: string;
+  typeIds?: string[];
+  offerId?: string;
+  orderId?: string;
+}
+
+export function listBillingTypes(client: AllegroClient) {
+  return client.get<BillingType[]>("/billing/billing-types");
+}
+
+export function getBillingEntries(
+  client: AllegroClient,
+  filters: BillingEntryFilters,
+  page: {
+    limit: number;
+    offset: number;
+  }
+) {
+  return client.get<BillingEntriesResponse>("/billing/billing-entries", {
+    query: {
+      "occurredAt.gte": filters.from,
+      "occurredAt.lte": filters.to,
+      "type.id": filters.typeIds,
+      "offer.id": filters.offerId,
+      "order.id": filters.orderId,
+      ...page,
+    },
+  });
+}
+
+export async function collectBillingEntries(
+  client: AllegroClient,
+  filters: BillingEntryFilters,
+  options: {
+    maxEntries: number;
+    onPage?: (fetched: number) => Promise<void> | void;
+    signal?: AbortSignal;
+  }
+) {
+  const entries: BillingEntry[] = [];
+  const seen = new Set<string>();
+  // One entry past the cap tells a full range apart from a truncated one.
+  const limit = options.maxEntries + 1;
+  let window = filters;
+  let offset = 0;
+  while (entries.length < limit) {
+    options.signal?.throwIfAborted();
+    const { billingEntries } = await getBillingEntries(client, window, {
+      limit: BILLING_PAGE_SIZE,
+      offset,
+    });
+    let added = 0;
+    for (const entry of billingEntries) {
+      if (!seen.has(entry.id) && entries.length < limit) {
+        seen.add(entry.id);
+        entries.push(entry);
+        added += 1;
+      }
+    }
+    await options.onPage?.(Math.min(entries.length, options.maxEntries));
+    if (billingEntries.length < BILLING_PAGE_SIZE) {
+      break;
+    }
+    if (added === 0) {
+      // The window no longer moves; more entries share one timestamp
+      // than the offset limit can reach.
+      return { entries: entries.slice(0, options.maxEntries), truncated: true };
+    }
+    offset += BILLING_PAGE_SIZE;
+    if (offset >= MAX_BILLING_OFFSET) {
+      const to = billingEntries.at(-1)?.occurredAt;
+      if (!to || to === window.to) {
+        return {
+          entries: entries.slice(0, options.maxEntries),
+          truncated: true,
+        };
+      }
+      window = { ...window, to };
+      offset = 0;
+    }
+  }
+  return {
+    entries: entries.slice(0, options.maxEntries),
+    truncated: entries.length > options.maxEntries,
+  };
+}
@@ -0,0 +1,142 @@
+import type { AllegroClient } from "./client.js";
+import type {
+  CategoriesResponse,
+  Category,
+  CategoryParameter,
+  CategoryParametersResponse,
+  MatchingCategoriesResponse,
+} from "./types/index.js";
+
+const MAX_CATEGORY_DEPTH = 10;
+const CATEGORY_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+const MAX_CATEGORY_CACHE_ENTRIES = 5000;
+
+const categoryCache = new Map<
+  string,
+  {
+    value: Promise<unknown>;
+    expiresAt: number;
+  }
+>();
+const knownCategories = new Map<string, Map<string, Category>>();
+
+function cached<T>(client: AllegroClient, key: string, load: () => Promise<T>) {
+  const cacheKey = `${client.apiUrl}|${key}`;
+  const entry = categoryCache.get(cacheKey);
+  if (entry && Date.now() < entry.expiresAt) {
+    return entry.value as Promise<T>;
+  }
+  if (categoryCache.size >= MAX_CATEGORY_CACHE_ENTRIES) {
+    categoryCache.clear();
+  }
+  const value = load().catch((error) => {
+    categoryCache.delete(cacheKey);
+    throw error;
+  });
+  categoryCache.set(cacheKey, {
+    value,
+    expiresAt: Date.now() + CATEGORY_CACHE_TTL_MS,
+  });
+  return value;
+}
+
+function knownCategoriesFor(client: AllegroClient) {
+  let known = knownCategories.get(client.apiUrl);
+  if (!known) {
+    known = new Map();
+    knownCategories.set(client.apiUrl, known);
+  }
+  return known;
+}
+
+function remember(client: AllegroClient, categories: Category[]) {
+  const known = knownCategoriesFor(client);
+  if (known.size + categories.length > MAX_CATEGORY_CACHE_ENTRIES) {
+    known.clear();
+  }
+  for (const category of categories) {
+    known.set(category.id, category);
+  }
+  return categories;
+}
+
+export function getCategory(client: AllegroClient, categoryId: string) {
+  return cached(client, `category:${categoryId}`, async () => {
+    const category = await client.get<Category>(
+      `/sale/categories/${encodeURIComponent(categoryId)}`
+    );
+    remember(client, [category]);
+    return category;
+  });
+}
+
+export function getChildCategories(client: AllegroClient, parentId?: string) {
+  return cached(client, `children:${parentId ?? "root"}`, async () => {
+    const response = await client.get<CategoriesResponse>("/sale/categories", {
+      query: { "parent.id": parentId },
+    });
+    return remember(client, response.categories);
+  });
+}
+
+export async function getCategoryPath(
+  client: AllegroClient,
+  categoryId: string
+) {
+  const path: Category[] = [];
+  let currentId: string | undefined = categoryId;
+  while (currentId && path.length < MAX_CATEGORY_DEPTH) {
+    const category: Category = await getCategory(client, currentId);
+    path.unshift(category);
+    currentId = category.parent?.id;
+  }
+  return path;
+}
+
+export function getCategoryParameters(
+  client: AllegroClient,
+  categoryId: string
+) {
+  return cached(client, `parameters:${categoryId}`, async () => {
+    const response = await client.get<CategoryParametersResponse>(
+      `/sale/categories/${encodeURIComponent(categoryId)}/parameters`
+    );
+    return response.parameters;
+  });
+}
+
+export function matchCategories(client: AllegroClient, name: string) {
+  const needle = name.trim().toLowerCase();
+  return cached(client, `matching:${needle}`, async () => {
+    const response = await client.get<MatchingCategoriesResponse>(
+      "/sale/matching-categories",
+      { query: { name: needle } }
+    );
+    return response.matchingCategories;
+  });
+}
+
+export function searchKnownCategories(
+  client: AllegroClient,
+  query: string,
+  limit = 20
+) {
+  const needle = query.trim().toLowerCase();
+  const matches: Category[] = [];
+  for (const category of knownCategoriesFor(client).values()) {
+    if (
+      category.id.startsWith(needle) ||
+      category.name.toLowerCase().includes(needle)
+    ) {
+      matches.push(category);
+      if (matches.length >= limit) {
+        break;
+      }
+    }
+  }
+  return matches;
+}
+
+export function indexParameters(parameters: CategoryParameter[]) {
+  return new Map(parameters.map((p) => [p.id, p]));
+}
@@ -0,0 +1,149 @@
+import {
+  createHttpClient,
+  createHttpLimiter,
+  type HttpClient,
+} from "../http-client.js";
+import { toAllegroApiError } from "./errors.js";
+
+export const ALLEGRO_API_URL = "https://api.allegro.pl";
+export const ALLEGRO_UPLOAD_URL = "https://upload.allegro.pl";
+
+const MEDIA_TYPES = {
+  public: "application/vnd.allegro.public.v1+json",
+  beta: "application/vnd.allegro.beta.v1+json",
+} as const;
+
+export type AllegroMediaType = keyof typeof MEDIA_TYPES;
+
+export type QueryValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | Array<string | number>;
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export interface AllegroClientOptions {
+  accessToken: string;
+  apiUrl?: string;
+  uploadUrl?: string;
+  acceptLanguage?: string;
+  httpClient?: HttpClient;
+  signal?: AbortSignal;
+}
+
+export interface AllegroRequestOptions {
+  query?: Record<string, QueryValue>;
+  body?: unknown;
+  headers?: Record<string, string>;
+  mediaType?: AllegroMediaType;
+  host?: "api" | "upload";
+  signal?: AbortSignal;
+}
+
+const IDEMPOTENT_METHODS = new Set<HttpMethod>(["GET", "PUT", "DELETE"]);
+
+const sharedLimiter = createHttpLimiter();
+const sharedRetryingHttp = createHttpClient({ limiter: sharedLimiter });
+const sharedSingleShotHttp = createHttpClient({
+  retries: 1,
+  limiter: sharedLimiter,
+});
+
+export function buildAllegroUrl(
+  baseUrl: string,
+  path: string,
+  query?: Record<string, QueryValue>
+) {
+  const url = new URL(path, baseUrl);
+  for (const [key, value] of Object.entries(query ?? {})) {
+    if (value === undefined || value === null || value === "") {
+      continue;
+    }
+    const values = Array.isArray(value) ? value : [value];
+    for (const v of values) {
+      url.searchParams.append(key, String(v));
+    }
+  }
+  return url.toString();
+}
+
+export function createAllegroClient(options: AllegroClientOptions) {
+  const {
+    accessToken,
+    apiUrl = ALLEGRO_API_URL,
+    uploadUrl = ALLEGRO_UPLOAD_URL,
+    acceptLanguage = "pl-PL",
+    httpClient,
+    signal: clientSignal,
+  } = options;
+  const retryingHttp = httpClient ?? sharedRetryingHttp;
+  const singleShotHttp = httpClient ?? sharedSingleShotHttp;
+
+  async function send(
+    method: HttpMethod,
+    path: string,
+    requestOptions: AllegroRequestOptions = {}
+  ) {
+    const {
+      query,
+      body,
+      headers,
+      mediaType = "public",
+      host = "api",
+      signal = clientSignal,
+    } = requestOptions;
+    const contentType = MEDIA_TYPES[mediaType];
+    const http = IDEMPOTENT_METHODS.has(method) ? retryingHttp : singleShotHttp;
+    const baseUrl = host === "upload" ? uploadUrl : apiUrl;
+    const response = await http(buildAllegroUrl(baseUrl, path, query), {
+      method,
+      headers: {
+        authorization: `Bearer ${accessToken}`,
+        accept: contentType,
+        "accept-language": acceptLanguage,
+        ...(body !== undefined && { "content-type": contentType }),
+        ...headers,
+      },
+      ...(body !== undefined && {
+        body: body instanceof Uint8Array ? body : JSON.stringify(body),
+      }),
+      signal,
+    });
+    if (!response.ok) {
+      throw await toAllegroApiError(response);
+    }
+    return response;
+  }
+
+  async function request<T>(
+    method: HttpMethod,
+    path: string,
+    requestOptions?: AllegroRequestOptions
+  ) {
+    const response = await send(method, path, requestOptions);
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
+  }
+
+  return {
+    apiUrl,
+    uploadUrl,
+    request,
+    raw: send,
+    get: <T>(path: string, requestOptions?: AllegroRequestOptions) =>
+      request<T>("GET", path, requestOptions),
+    post: <T>(path: string, requestOptions?: AllegroRequestOptions) =>
+      request<T>("POST", path, requestOptions),
+    put: <T>(path: string, requestOptions?: AllegroRequestOptions) =>
+      request<T>("PUT", path, requestOptions),
+    patch: <T>(path: string, requestOptions?: AllegroRequestOptions) =>
+      request<T>("PATCH", path, requestOptions),
+    delete: <T>(path: string, requestOptions?: AllegroRequestOptions) =>
+      request<T>("DELETE", path, requestOptions),
+  };
+}
+
+export type AllegroClient = ReturnType<typeof createAllegroClient>;
@@ -0,0 +1,122 @@
+import { getCurrentAuthContext } from "../../../core/context.js";
+import type { AllegroEnvironment } from "../../config/allegro.js";
+import { parseConfig } from "../../config/env.js";
+import {
+  buildProviderRefreshConfig,
+  ensureFreshToken,
+} from "../../oauth/refresh.js";
+import { getTokenStore } from "../../storage/singleton.js";
+import type { ToolContext } from "../../tools/types.js";
+import { asProviderInfo } from "../../types/provider.js";
+import { type TrackedAllegroAccount, trackAllegroAccount } from "./accounts.js";
+import { createAllegroClient } from "./client.js";
+
+let allegroConfig: ReturnType<typeof parseConfig> | undefined;
+
+export function resolveAllegroConfig() {
+  allegroConfig ??= parseConfig((process.env ?? {}) as Record<string, unknown>);
+  return allegroConfig;
+}
+
+function isEnvironmentMismatch(tokenEnvironment?: AllegroEnvironment) {
+  return Boolean(
+    tokenEnvironment && tokenEnvironment !== resolveAllegroConfig().ALLEGRO_ENV
+  );
+}
+
+function createConfiguredAllegroClient(
+  accessToken: string,
+  signal?: AbortSignal
+) {
+  const config = resolveAllegroConfig();
+  return createAllegroClient({
+    accessToken,
+    signal,
+    apiUrl: config.PROVIDER_API_URL,
+    uploadUrl: config.ALLEGRO_UPLOAD_URL,
+  });
+}
+
+export function withAllegroClient(context: ToolContext): ToolContext {
+  if (
+    context.allegro ||
+    !context.providerToken ||
+    isEnvironmentMismatch(context.provider?.environment)
+  ) {
+    return context;
+  }
+  return {
+    ...context,
+    allegro: createConfiguredAllegroClient(
+      context.providerToken,
+      context.signal
+    ),
+  };
+}
+
+export function requireAllegroClient(context: ToolContext) {
+  if (context.allegro) {
+    return context.allegro;
+  }
+  if (isEnvironmentMismatch(context.provider?.environment)) {
+    throw new Error(
+      `Allegro token was issued for ${context.provider?.environment}, but the server runs against ${resolveAllegroConfig().ALLEGRO_ENV}. Re-authorize with Allegro.`
+    );
+  }
+  throw new Error(
+    "Allegro account is not connected. Authorize this server with Allegro first."
+  );
+}
+
+export function getRequestAllegroClient() {
+  const auth = getCurrentAuthContext();
+  if (!auth?.providerToken) {
+    return;
+  }
+  return withAllegroClient({
+    sessionId: auth.sessionId ?? crypto.randomUUID(),
+    providerToken: auth.providerToken,
+    provider: auth.provider ? asProviderInfo(auth.provider) : undefined,
+  }).allegro;
+}
+
+export function trackCurrentAllegroAccount() {
+  const auth = getCurrentAuthContext();
+  if (
+    !auth?.providerToken ||
+    isEnvironmentMismatch(auth.provider?.environment)
+  ) {
+    return null;
+  }
+  return trackAllegroAccount({
+    accessToken: auth.providerToken,
+    rsToken: auth.rsToken,
+  });
+}
+
+export function requireCurrentAllegroAccount() {
+  const accountId = trackCurrentAllegroAccount();
+  if (!accountId) {
+    throw new Error(
+      "Allegro account is not connected. Authorize this server with Allegro first."
+    );
+  }
+  return accountId;
+}
+
+export async function createAccountAllegroClient(
+  account: TrackedAllegroAccount
+) {
+  if (account.rsToken) {
+    const { accessToken } = await ensureFreshToken(
+      account.rsToken,
+      getTokenStore(),
+      buildProviderRefreshConfig(resolveAllegroConfig())
+    );
+    if (!accessToken) {
+      return null;
+    }
+    account.accessToken = accessToken;
+  }
+  return createConfiguredAllegroClient(account.accessToken);
+}
@@ -0,0 +1,266 @@
+import type { Description, DescriptionItem } from "./types/index.js";
+
+export const DESCRIPTION_TAGS = ["h1", "h2", "p", "ul", "ol", "li", "b"];
+
+const TAG_ALIASES: Record<string, string> = {
+  strong: "b",
+  h3: "h2",
+  h4: "h2",
+  h5: "h2",
+  h6: "h2",
+};
+const IMPLIED_END: Record<string, string> = {
+  li: "li",
+  p: "p",
+  h1: "p",
+  h2: "p",
+  ul: "p",
+  ol: "p",
+};
+const DROPPED_BLOCKS = new Set(["script", "style"]);
+const TAG_NAME = /^<(\/?)([a-z][a-z0-9]*)/i;
+const ENTITY = /^&(?:[a-z][a-z0-9]*|#\d+|#x[0-9a-f]+);/i;
+const SECTION_BOUNDARY = /(?=<h[12]>)/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const BULLET = /^[-*+]\s+(.*)$/;
+const NUMBERED = /^\d+[.)]\s+(.*)$/;
+const BOLD = /(\*\*|__)(.+?)\1/g;
+const EMPHASIS = /(^|\W)(\*|_)(\S.*?)\2(?=\W|$)/g;
+const LINK = /\[([^\]]+)\]\([^)]*\)/g;
+const CODE = /`([^`]*)`/g;
+const EMPTY_ELEMENT = /<(p|b|li|ul|ol|h1|h2)>\s*<\/\1>/g;
+const WHITESPACE = /\s+/g;
+const TAG_PADDING = /\s*(<\/?(?:h1|h2|p|ul|ol|li)>)\s*/g;
+const LINE_BREAK = /\r?\n/;
+const PARAGRAPH_BREAK = /\n\s*\n/;
+const BLOCK = /<(h1|h2|p|ul|ol)>[\s\S]*?<\/\1>/g;
+
+export function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function renderInline(text: string) {
+  return escapeHtml(text)
+    .replace(LINK, "$1")
+    .replace(CODE, "$1")
+    .replace(BOLD, "<b>$2</b>")
+    .replace(EMPHASIS, "$1$3");
+}
+
+function closeList(out: string[], list: string | undefined) {
+  if (list) {
+    out.push(`</${list}>`);
+  }
+}
+
+export function markdownToHtml(markdown: string) {
+  const out: string[] = [];
+  let paragraph: string[] = [];
+  let list: "ul" | "ol" | undefined;
+  const flush = () => {
+    if (paragraph.length > 0) {
+      out.push(`<p>${renderInline(paragraph.join(" "))}</p>`);
+      paragraph = [];
+    }
+  };
+  for (const line of markdown.split(LINE_BREAK).map((l) => l.trim())) {
+    const heading = HEADING.exec(line);
+    const item = BULLET.exec(line) ?? NUMBERED.exec(line);
+    const itemList = BULLET.test(line) ? "ul" : "ol";
+    if (item) {
+      flush();
+      if (list !== itemList) {
+        closeList(out, list);
+        out.push(`<${itemList}>`);
+        list = itemList;
+      }
+      out.push(`<li>${renderInline(item[1])}</li>`);
+      continue;
+    }
+    closeList(out, list);
+    list = undefined;
+    if (heading) {
+      flush();
+      const tag = heading[1].length === 1 ? "h1" : "h2";
+      out.push(`<${tag}>${renderInline(heading[2])}</${tag}>`);
+    } else if (line) {
+      paragraph.push(line);
+    } else {
+      flush();
+    }
+  }
+  flush();
+  closeList(out, list);
+  return out.join("");
+}
+
+export function textToHtml(text: string) {
+  return text
+    .split(PARAGRAPH_BREAK)
+    .map((p) => p.replace(WHITESPACE, " ").trim())
+    .filter(Boolean)
+    .map((p) => `<p>${escapeHtml(p)}</p>`)
+    .join("");
+}
+
+function wrapLooseText(html: string) {
+  const out: string[] = [];
+  let last = 0;
+  const pushLoose = (text: string) => {
+    if (text.trim()) {
+      out.push(`<p>${text.trim()}</p>`);
+    }
+  };
+  for (const match of html.matchAll(BLOCK)) {
+    pushLoose(html.slice(last, match.index));
+    out.push(match[0]);
+    last = match.index + match[0].length;
+  }
+  pushLoose(html.slice(last));
+  return out.join("");
+}
+
+interface ParsedTag {
+  closing: boolean;
+  name: string;
+  end: number;
+}
+
+function parseTag(html: string, start: number): ParsedTag | undefined {
+  const match = TAG_NAME.exec(html.slice(start, start + 64));
+  if (!match) {
+    return;
+  }
+  let quote: string | undefined;
+  for (let i = start + match[0].length; i < html.length; i++) {
+    const char = html[i];
+    if (quote) {
+      quote = char === quote ? undefined : quote;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ">") {
+      return {
+        closing: match[1] === "/",
+        name: match[2].toLowerCase(),
+        end: i + 1,
+      };
+    }
+  }
+}
+
+function skipDroppedBlock(html: string, name: string, from: number) {
+  const lower = html.toLowerCase();
+  let index = lower.indexOf(`</${name}`, from);
+  while (index !== -1) {
+    const tag = parseTag(html, index);
+    if (tag?.closing && tag.name === name) {
+      return tag.end;
+    }
+    index = lower.indexOf(`</${name}`, index + 1);
+  }
+  return html.length;
+}
+
+function escapeText(html: string, index: number) {
+  const char = html[index];
+  if (char === "<") {
+    return "&lt;";
+  }
+  if (char === ">") {
+    return "&gt;";
+  }
+  if (char === "&" && !ENTITY.test(html.slice(index, index + 12))) {
+    return "&amp;";
+  }
+  return char;
+}
+
+function balanceTag(open: string[], name: string, closing: boolean) {
+  if (!closing) {
+    const implied = open.at(-1) === IMPLIED_END[name] ? open.pop() : undefined;
+    open.push(name);
+    return [...(implied ? [`</${implied}>`] : []), `<${name}>`];
+  }
+  const index = open.lastIndexOf(name);
+  if (index === -1) {
+    return [];
+  }
+  return open
+    .splice(index)
+    .reverse()
+    .map((n) => `</${n}>`);
+}
+
+export function sanitizeDescriptionHtml(html: string) {
+  const removed = new Set<string>();
+  const out: string[] = [];
+  const open: string[] = [];
+  let i = 0;
+  while (i < html.length) {
+    if (html.startsWith("<!--", i)) {
+      const end = html.indexOf("-->", i + 4);
+      i = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    const tag = html[i] === "<" ? parseTag(html, i) : undefined;
+    if (!tag) {
+      out.push(escapeText(html, i));
+      i++;
+      continue;
+    }
+    i = tag.end;
+    const name = TAG_ALIASES[tag.name] ?? tag.name;
+    if (DESCRIPTION_TAGS.includes(name)) {
+      out.push(...balanceTag(open, name, tag.closing));
+      continue;
+    }
+    removed.add(tag.name);
+    out.push(" ");
+    if (!tag.closing && DROPPED_BLOCKS.has(tag.name)) {
+      i = skipDroppedBlock(html, tag.name, i);
+    }
+  }
+  out.push(...open.reverse().map((name) => `</${name}>`));
+  const sanitized = out
+    .join("")
+    .replace(WHITESPACE, " ")
+    .replace(TAG_PADDING, "$1")
+    .replace(EMPTY_ELEMENT, "");
+  return { html: wrapLooseText(sanitized), removedTags: [...removed] };
+}
+
+export function buildDescription(html: string, images: string[]): Description {
+  const blocks = html
+    .split(SECTION_BOUNDARY)
+    .map((b) => b.trim())
+    .filter(Boolean);
+  const queue = [...images];
+  const sections = blocks.map((content) => {
+    const items: DescriptionItem[] = [{ type: "TEXT", content }];
+    const url = queue.shift();
+    if (url) {
+      items.push({ type: "IMAGE", url });
+    }
+    return { items };
+  });
+  for (const url of queue) {
+    sections.push({ items: [{ type: "IMAGE", url }] });
+  }
+  return { sections };
+}
+
+export function describeSections(description: Description) {
+  return description.sections
+    .map((section, i) =>
+      [
+        `### Section ${i + 1}`,
+        ...section.items.map((item) =>
+          item.type === "IMAGE" ? `[image] ${item.url}` : (item.content ?? "")
+        ),
+      ].join("\n")
+    )
+    .join("\n\n");
+}
@@ -0,0 +1,102 @@
+export interface AllegroErrorDetail {
+  code: string;
+  message: string;
+  details?: string | null;
+  path?: string | null;
+  userMessage?: string | null;
+  metadata?: Record<string, string>;
+}
+
+function formatErrorMessage(status: number, errors: AllegroErrorDetail[]) {
+  const first = errors[0];
+  if (!first) {
+    return `Allegro API request failed with status ${status}`;
+  }
+  const text = first.userMessage || first.message || first.code;
+  const location = first.path ? ` (${first.path})` : "";
+  const more = errors.length > 1 ? ` (+${errors.length - 1} more)` : "";
+  return `Allegro API error ${status} ${first.code}: ${text}${location}${more}`;
+}
+
+export class AllegroApiError extends Error {
+  readonly status: number;
+  readonly errors: AllegroErrorDetail[];
+  readonly traceId?: string;
+  constructor(status: number, errors: AllegroErrorDetail[], traceId?: string) {
+    super(formatErrorMessage(status, errors));
+    this.name = "AllegroApiError";
+    this.status = status;
+    this.errors = errors;
+    this.traceId = traceId;
+  }
+
+  get code() {
+    return this.errors[0]?.code;
+  }
+
+  hasCode(code: string) {
+    return this.errors.some((e) => e.code === code);
+  }
+}
+
+export function isAllegroApiError(error: unknown): error is AllegroApiError {
+  return error instanceof AllegroApiError;
+}
+
+function toErrorDetail(value: unknown): AllegroErrorDetail | null {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+  const raw = value as Record<string, unknown>;
+  return {
+    code: String(raw.code ?? "UNKNOWN"),
+    message: String(raw.message ?? ""),
+    details: (raw.details as string | null | undefined) ?? null,
+    path: (raw.path as string | null | undefined) ?? null,
+    userMessage: (raw.userMessage as string | null | undefined) ?? null,
+    metadata: raw.metadata as Record<string, string> | undefined,
+  };
+}
+
+export function parseErrorBody(status: number, body: unknown) {
+  if (typeof body === "object" && body !== null) {
+    const raw = body as Record<string, unknown>;
+    if (Array.isArray(raw.errors)) {
+      return raw.errors
+        .map(toErrorDetail)
+        .filter((e): e is AllegroErrorDetail => e !== null);
+    }
+    if (typeof raw.error === "string") {
+      return [
+        {
+          code: raw.error,
+          message: String(raw.error_description ?? raw.error),
+        },
+      ];
+    }
+  }
+  if (typeof body === "string" && body.trim()) {
+    return [{ code: `HTTP_${status}`, message: body.trim() }];
+  }
+  return [];
+}
+
+function parseJsonOrText(text: string) {
+  if (!text) {
+    return;
+  }
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return text;
+  }
+}
+
+export async function toAllegroApiError(response: Response) {
+  const text = await response.text().catch(() => "");
+  return new AllegroApiError(
+    response.status,
+    parseErrorBody(response.status, parseJsonOrText(text)),
+    response.headers.get("trace-id") ?? undefined
+  );
+}
@@ -0,0 +1,94 @@
+import { getTokenStore } from "../../storage/singleton.js";
+import { createAccountPoller } from "./account-poller.js";
+import type { AllegroClient } from "./client.js";
+
+export interface JournalEvent {
+  id: string;
+  type: string;
+  occurredAt: string;
+}
+
+export interface EventJournalOptions {
+  name: string;
+  path: string;
+  types: readonly string[];
+  intervalMs?: number;
+  bufferSize?: number;
+  latestEventId?: (client: AllegroClient) => Promise<string | undefined>;
+  onEvents: (accountId: string, events: JournalEvent[]) => void;
+}
+
+interface AccountJournal {
+  lastEventId?: string;
+  lastPolledAt?: string;
+  recent: JournalEvent[];
+}
+
+const DEFAULT_INTERVAL_MS = 30_000;
+const DEFAULT_BUFFER_SIZE = 100;
+const EVENTS_PAGE_SIZE = 1000;
+
+export function createEventJournalPoller<TEvent extends JournalEvent>(
+  options: EventJournalOptions
+) {
+  const {
+    name,
+    path,
+    types,
+    intervalMs = DEFAULT_INTERVAL_MS,
+    bufferSize = DEFAULT_BUFFER_SIZE,
+    latestEventId,
+    onEvents,
+  } = options;
+  const journals = new Map<string, AccountJournal>();
+
+  async function resolveCursor(accountId: string, client: AllegroClient) {
+    const journal = journals.get(accountId);
+    if (journal?.lastEventId) {
+      return journal.lastEventId;
+    }
+    const stored = await getTokenStore().getEventCursor(`${name}:${accountId}`);
+    return stored ?? (await latestEventId?.(client));
+  }
+
+  async function pollAccount(accountId: string, client: AllegroClient) {
+    const journal = journals.get(accountId) ?? { recent: [] };
+    journals.set(accountId, journal);
+    const from = await resolveCursor(accountId, client);
+    const response = await client.get<{ events: TEvent[] }>(path, {
+      query: { from, type: [...types], limit: EVENTS_PAGE_SIZE },
+    });
+    journal.lastPolledAt = new Date().toISOString();
+    const lastEvent = response.events.at(-1);
+    const cursor = lastEvent?.id ?? from;
+    if (cursor && cursor !== journal.lastEventId) {
+      journal.lastEventId = cursor;
+      await getTokenStore().saveEventCursor(`${name}:${accountId}`, cursor);
+    }
+    if (response.events.length === 0) {
+      return false;
+    }
+    journal.recent = [...journal.recent, ...response.events].slice(-bufferSize);
+    onEvents(accountId, response.events);
+    return true;
+  }
+
+  const poller = createAccountPoller({
+    name,
+    intervalMs,
+    pollAccount,
+    onAccountForgotten: (accountId) => journals.delete(accountId),
+  });
+
+  function read(accountId: string) {
+    const journal = journals.get(accountId);
+    return {
+      accountId,
+      lastEventId: journal?.lastEventId ?? null,
+      lastPolledAt: journal?.lastPolledAt ?? null,
+      events: (journal?.recent ?? []) as TEvent[],
+    };
+  }
+
+  return { ...poller, read };
+}
@@ -0,0 +1,21 @@
+import type { AllegroClient } from "./client.js";
+import type { UploadedImage } from "./types/index.js";
+
+export function uploadImageFromUrl(client: AllegroClient, url: string) {
+  return client.post<UploadedImage>("/sale/images", {
+    host: "upload",
+    body: { url },
+  });
+}
+
+export function uploadImageData(
+  client: AllegroClient,
+  data: Uint8Array,
+  mimeType: string
+) {
+  return client.post<UploadedImage>("/sale/images", {
+    host: "upload",
+    body: data,
+    headers: { "content-type": mimeType },
+  });
+}
@@ -0,0 +1,141 @@
+import type { AllegroClient } from "./client.js";
+import type {
+  Issue,
+  IssueAttachmentDeclaration,
+  IssueChatMessage,
+  IssueChatResponse,
+  IssueMessage,
+  IssueStatus,
+  IssueStatusChange,
+  IssuesResponse,
+  IssueType,
+} from "./types/index.js";
+
+export const OPEN_ISSUE_STATUSES: IssueStatus[] = [
+  "DISPUTE_ONGOING",
+  "DISPUTE_UNRESOLVED",
+  "CLAIM_SUBMITTED",
+];
+
+const ISSUES_PAGE_SIZE = 100;
+const MAX_COLLECTED_ISSUES = 1000;
+
+export interface IssueSearchFilters {
+  status?: IssueStatus[];
+  type?: IssueType;
+  checkoutFormId?: string;
+  buyerLogin?: string;
+}
+
+function issuePath(issueId: string) {
+  return `/sale/issues/${encodeURIComponent(issueId)}`;
+}
+
+export function listIssues(
+  client: AllegroClient,
+  filters: IssueSearchFilters,
+  page: {
+    limit: number;
+    offset: number;
+  }
+) {
+  return client.get<IssuesResponse>("/sale/issues", {
+    mediaType: "beta",
+    query: {
+      status: filters.status,
+      type: filters.type,
+      "checkoutForm.id": filters.checkoutFormId,
+      "buyer.login": filters.buyerLogin,
+      ...page,
+    },
+  });
+}
+
+export async function collectOpenIssues(client: AllegroClient) {
+  const issues: Issue[] = [];
+  for (let offset = 0; offset < MAX_COLLECTED_ISSUES; ) {
+    const page = await listIssues(
+      client,
+      { status: OPEN_ISSUE_STATUSES },
+      { limit: ISSUES_PAGE_SIZE, offset }
+    );
+    issues.push(...page.issues);
+    offset += page.issues.length;
+    if (page.issues.length < ISSUES_PAGE_SIZE) {
+      break;
+    }
+  }
+  return issues;
+}
+
+export function getIssue(client: AllegroClient, issueId: string) {
+  return client.get<Issue>(issuePath(issueId), { mediaType: "beta" });
+}
+
+export async function getIssueChat(client: AllegroClient, issueId: string) {
+  const response = await client.get<IssueChatResponse>(
+    `${issuePath(issueId)}/chat`,
+    { mediaType: "beta" }
+  );
+  return response.chat;
+}
+
+export function postIssueMessage(
+  client: AllegroClient,
+  issueId: string,
+  message: IssueMessage
+) {
+  return client.post<IssueChatMessage>(`${issuePath(issueId)}/message`, {
+    mediaType: "beta",
+    body: message,
+  });
+}
+
+export function changeIssueStatus(
+  client: AllegroClient,
+  issueId: string,
+  change: IssueStatusChange
+) {
+  return client.post<Issue>(`${issuePath(issueId)}/status`, {
+    mediaType: "beta",
+    body: change,
+  });
+}
+
+export async function uploadIssueAttachment(
+  client: AllegroClient,
+  attachment: {
+    fileName: string;
+    mimeType: string;
+    data: Uint8Array;
+  }
+) {
+  const declaration = await client.post<IssueAttachmentDeclaration>(
+    "/sale/issues/attachments",
+    {
+      mediaType: "beta",
+      body: { fileName: attachment.fileName, size: attachment.data.length },
+    }
+  );
+  await client.put(
+    `/sale/issues/attachments/${encodeURIComponent(declaration.id)}`,
+    {
+      host: "upload",
+      mediaType: "beta",
+      body: attachment.data,
+      headers: { "content-type": attachment.mimeType },
+    }
+  );
+  return declaration;
+}
+
+export function issueDeadline(issue: Issue) {
+  return issue.currentState.statusDueDate ?? issue.decisionDueDate ?? null;
+}
+
+export function hoursUntil(deadline: string | null, now = Date.now()) {
+  if (!deadline) {
+    return null;
+  }
+  return Math.round(((Date.parse(deadline) - now) / 3_600_000) * 10) / 10;
+}
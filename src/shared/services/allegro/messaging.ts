@@ -0,0 +1,109 @@
+import type { AllegroClient } from "./client.js";
+import type {
+  Message,
+  MessageAttachmentDeclaration,
+  MessagesResponse,
+  MessageThread,
+  MessageThreadsResponse,
+  NewMessage,
+} from "./types/index.js";
+
+export const MESSAGE_THREADS_PAGE_SIZE = 20;
+export const MAX_MESSAGE_LENGTH = 2000;
+const MAX_UNREAD_SCAN = 100;
+
+function threadPath(threadId: string) {
+  return `/messaging/threads/${encodeURIComponent(threadId)}`;
+}
+
+export function listMessageThreads(
+  client: AllegroClient,
+  page: {
+    limit: number;
+    offset: number;
+  }
+) {
+  return client.get<MessageThreadsResponse>("/messaging/threads", {
+    query: page,
+  });
+}
+
+export function getMessageThread(client: AllegroClient, threadId: string) {
+  return client.get<MessageThread>(threadPath(threadId));
+}
+
+export function listThreadMessages(
+  client: AllegroClient,
+  threadId: string,
+  page: {
+    limit: number;
+    offset: number;
+  }
+) {
+  return client.get<MessagesResponse>(`${threadPath(threadId)}/messages`, {
+    query: page,
+  });
+}
+
+export function markThreadRead(client: AllegroClient, threadId: string) {
+  return client.put<MessageThread>(`${threadPath(threadId)}/read`, {
+    body: { read: true },
+  });
+}
+
+export function sendThreadMessage(
+  client: AllegroClient,
+  threadId: string,
+  message: NewMessage
+) {
+  return client.post<Message>(`${threadPath(threadId)}/messages`, {
+    body: message,
+  });
+}
+
+export async function uploadMessageAttachment(
+  client: AllegroClient,
+  attachment: {
+    fileName: string;
+    mimeType: string;
+    data: Uint8Array;
+  }
+) {
+  const declaration = await client.post<MessageAttachmentDeclaration>(
+    "/messaging/message-attachments",
+    { body: { filename: attachment.fileName, size: attachment.data.length } }
+  );
+  await client.put(
+    `/messaging/message-attachments/${encodeURIComponent(declaration.id)}`,
+    {
+      host: "upload",
+      body: attachment.data,
+      headers: { "content-type": attachment.mimeType },
+    }
+  );
+  return declaration;
+}
+
+export async function countUnreadThreads(client: AllegroClient) {
+  let unread = 0;
+  let latestMessageAt: string | null = null;
+  for (let offset = 0; offset < MAX_UNREAD_SCAN; ) {
+    const { threads } = await listMessageThreads(client, {
+      limit: MESSAGE_THREADS_PAGE_SIZE,
+      offset,
+    });
+    for (const thread of threads) {
+      if (!thread.read) {
+        unread += 1;
+      }
+      if (!latestMessageAt || thread.lastMessageDateTime > latestMessageAt) {
+        latestMessageAt = thread.lastMessageDateTime;
+      }
+    }
+    offset += threads.length;
+    if (threads.length < MESSAGE_THREADS_PAGE_SIZE) {
+      return { unread, scanned: offset, complete: true, latestMessageAt };
+    }
+  }
+  return { unread, scanned: MAX_UNREAD_SCAN, complete: false, latestMessageAt };
+}
@@ -0,0 +1,84 @@
+import type { AllegroClient } from "./client.js";
+import type {
+  OfferListResponse,
+  ProductOffer,
+  PublicationStatus,
+  SellingModeFormat,
+} from "./types/index.js";
+
+const OFFERS_PAGE_SIZE = 1000;
+
+export interface OfferSearchFilters {
+  name?: string;
+  priceFrom?: number;
+  priceTo?: number;
+  status?: PublicationStatus[];
+  categoryId?: string;
+  stockFrom?: number;
+  stockTo?: number;
+  sellingFormat?: SellingModeFormat;
+  externalId?: string;
+}
+
+export function buildOfferSearchQuery(filters: OfferSearchFilters) {
+  return {
+    name: filters.name,
+    "sellingMode.price.amount.gte": filters.priceFrom,
+    "sellingMode.price.amount.lte": filters.priceTo,
+    "publication.status": filters.status,
+    "category.id": filters.categoryId,
+    "stock.available.gte": filters.stockFrom,
+    "stock.available.lte": filters.stockTo,
+    "sellingMode.format": filters.sellingFormat,
+    "external.id": filters.externalId,
+  };
+}
+
+export function getProductOffer(client: AllegroClient, offerId: string) {
+  return client.get<ProductOffer>(
+    `/sale/product-offers/${encodeURIComponent(offerId)}`
+  );
+}
+
+export function updateProductOffer(
+  client: AllegroClient,
+  offerId: string,
+  patch: Record<string, unknown>
+) {
+  return client.patch<ProductOffer>(
+    `/sale/product-offers/${encodeURIComponent(offerId)}`,
+    { body: patch }
+  );
+}
+
+export function searchOffers(
+  client: AllegroClient,
+  filters: OfferSearchFilters,
+  page: {
+    limit: number;
+    offset: number;
+  }
+) {
+  return client.get<OfferListResponse>("/sale/offers", {
+    query: { ...buildOfferSearchQuery(filters), ...page },
+  });
+}
+
+export async function collectOfferIds(
+  client: AllegroClient,
+  filters: OfferSearchFilters,
+  maxOffers: number
+) {
+  const ids: string[] = [];
+  let offset = 0;
+  while (ids.length < maxOffers) {
+    const limit = Math.min(OFFERS_PAGE_SIZE, maxOffers - ids.length);
+    const page = await searchOffers(client, filters, { limit, offset });
+    ids.push(...page.offers.map((offer) => offer.id));
+    offset += page.offers.length;
+    if (page.offers.length === 0 || offset >= page.totalCount) {
+      break;
+    }
+  }
+  return ids;
+}
@@ -0,0 +1,156 @@
+import type { AllegroClient } from "./client.js";
+import type {
+  CarriersResponse,
+  CarrierTrackingResponse,
+  CheckoutForm,
+  CheckoutFormStatus,
+  CheckoutFormsResponse,
+  CustomerReturn,
+  CustomerReturnRejection,
+  CustomerReturnStatus,
+  CustomerReturnsResponse,
+  FulfillmentStatus,
+  OrderShipment,
+} from "./types/index.js";
+
+export interface OrderSearchFilters {
+  status?: CheckoutFormStatus[];
+  fulfillmentStatus?: FulfillmentStatus[];
+  buyerLogin?: string;
+  boughtFrom?: string;
+  boughtTo?: string;
+  updatedFrom?: string;
+  updatedTo?: string;
+  marketplaceId?: string;
+  deliveryMethodId?: string;
+  paymentId?: string;
+}
+
+export function buildOrderSearchQuery(filters: OrderSearchFilters) {
+  return {
+    status: filters.status,
+    "fulfillment.status": filters.fulfillmentStatus,
+    "buyer.login": filters.buyerLogin,
+    "lineItems.boughtAt.gte": filters.boughtFrom,
+    "lineItems.boughtAt.lte": filters.boughtTo,
+    "updatedAt.gte": filters.updatedFrom,
+    "updatedAt.lte": filters.updatedTo,
+    "marketplace.id": filters.marketplaceId,
+    "delivery.method.id": filters.deliveryMethodId,
+    "payment.id": filters.paymentId,
+  };
+}
+
+export function searchOrders(
+  client: AllegroClient,
+  filters: OrderSearchFilters,
+  page: {
+    limit: number;
+    offset: number;
+  }
+) {
+  return client.get<CheckoutFormsResponse>("/order/checkout-forms", {
+    query: { ...buildOrderSearchQuery(filters), ...page },
+  });
+}
+
+export function getOrder(client: AllegroClient, orderId: string) {
+  return client.get<CheckoutForm>(
+    `/order/checkout-forms/${encodeURIComponent(orderId)}`
+  );
+}
+
+export function setFulfillmentStatus(
+  client: AllegroClient,
+  orderId: string,
+  status: FulfillmentStatus,
+  revision?: string
+) {
+  return client.put<void>(
+    `/order/checkout-forms/${encodeURIComponent(orderId)}/fulfillment`,
+    {
+      query: { "checkoutForm.revision": revision },
+      body: { status },
+    }
+  );
+}
+
+export function listCarriers(client: AllegroClient) {
+  return client.get<CarriersResponse>("/order/carriers");
+}
+
+export function addOrderShipment(
+  client: AllegroClient,
+  orderId: string,
+  shipment: {
+    carrierId: string;
+    waybill: string;
+    carrierName?: string;
+    lineItems?: Array<{ id: string }>;
+  }
+) {
+  return client.post<OrderShipment>(
+    `/order/checkout-forms/${encodeURIComponent(orderId)}/shipments`,
+    { body: shipment }
+  );
+}
+
+export function getCarrierTracking(
+  client: AllegroClient,
+  carrierId: string,
+  waybills: string[]
+) {
+  return client.get<CarrierTrackingResponse>(
+    `/order/carriers/${encodeURIComponent(carrierId)}/tracking`,
+    { query: { waybill: waybills } }
+  );
+}
+
+export interface CustomerReturnFilters {
+  status?: CustomerReturnStatus[];
+  orderId?: string;
+  buyerLogin?: string;
+  referenceNumber?: string;
+  createdFrom?: string;
+  createdTo?: string;
+}
+
+export function listCustomerReturns(
+  client: AllegroClient,
+  filters: CustomerReturnFilters,
+  page: {
+    limit: number;
+    offset: number;
+  }
+) {
+  return client.get<CustomerReturnsResponse>("/order/customer-returns", {
+    mediaType: "beta",
+    query: {
+      status: filters.status,
+      orderId: filters.orderId,
+      "buyer.login": filters.buyerLogin,
+      referenceNumber: filters.referenceNumber,
+      "createdAt.gte": filters.createdFrom,
+      "createdAt.lte": filters.createdTo,
+      ...page,
+    },
+  });
+}
+
+export function getCustomerReturn(client: AllegroClient, returnId: string) {
+  return client.get<CustomerReturn>(
+    `/order/customer-returns/${encodeURIComponent(returnId)}`,
+    { mediaType: "beta" }
+  );
+}
+
+export function rejectCustomerReturn(
+  client: AllegroClient,
+  returnId: string,
+  rejection: CustomerReturnRejection
+) {
+  return client.post<CustomerReturn>(
+    `/order/customer-returns/${encodeURIComponent(returnId)}/rejection`,
+    { mediaType: "beta", body: { rejection } }
+  );
+}
@@ -0,0 +1,110 @@
+import { indexParameters } from "./categories.js";
+import type { CategoryParameter, ParameterValue } from "./types/index.js";
+
+export interface ParameterProblem {
+  parameterId: string;
+  name: string;
+  message: string;
+}
+
+function validateNumber(definition: CategoryParameter, value: string) {
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    return `"${value}" is not a number`;
+  }
+  if (definition.type === "integer" && !Number.isInteger(number)) {
+    return `"${value}" is not an integer`;
+  }
+  const { min, max } = definition.restrictions ?? {};
+  if (
+    (min !== undefined && number < min) ||
+    (max !== undefined && number > max)
+  ) {
+    return `${value} is outside ${min ?? "-∞"}..${max ?? "∞"}`;
+  }
+}
+
+function validateDictionary(
+  definition: CategoryParameter,
+  value: ParameterValue
+) {
+  const dictionary = new Set((definition.dictionary ?? []).map((d) => d.id));
+  const problems = (value.valuesIds ?? [])
+    .filter((id) => !dictionary.has(id))
+    .map((id) => `unknown dictionary value id ${id}`);
+  if (
+    definition.type === "dictionary" &&
+    value.values?.length &&
+    !definition.options?.customValuesEnabled
+  ) {
+    problems.push("use valuesIds from the dictionary");
+  }
+  return problems;
+}
+
+export function validateParameterValue(
+  definition: CategoryParameter,
+  value: ParameterValue
+) {
+  switch (definition.type) {
+    case "integer":
+    case "float":
+      return [
+        ...(value.values ?? []),
+        ...(value.rangeValue
+          ? [value.rangeValue.from, value.rangeValue.to]
+          : []),
+      ]
+        .map((number) => validateNumber(definition, number))
+        .filter((problem): problem is string => problem !== undefined);
+    case "string": {
+      const maxLength = definition.restrictions?.maxLength;
+      return (value.values ?? [])
+        .filter((text) => maxLength !== undefined && text.length > maxLength)
+        .map(() => `longer than ${maxLength} characters`);
+    }
+    default:
+      return validateDictionary(definition, value);
+  }
+}
+
+function hasValue(value: ParameterValue) {
+  return Boolean(
+    value.values?.length || value.valuesIds?.length || value.rangeValue
+  );
+}
+
+export function validateParameters(
+  definitions: CategoryParameter[],
+  values: ParameterValue[],
+  required: CategoryParameter[]
+) {
+  const byId = indexParameters(definitions);
+  const provided = new Set(values.filter(hasValue).map((v) => v.id));
+  const problems: ParameterProblem[] = required
+    .filter((d) => !provided.has(d.id))
+    .map((d) => ({ parameterId: d.id, name: d.name, message: "is required" }));
+  for (const value of values) {
+    const definition = byId.get(value.id);
+    if (!definition) {
+      problems.push({
+        parameterId: value.id,
+        name: value.id,
+        message: "is not a parameter of this category",
+      });
+      continue;
+    }
+    problems.push(
+      ...validateParameterValue(definition, value).map((message) => ({
+        parameterId: definition.id,
+        name: definition.name,
+        message,
+      }))
+    );
+  }
+  return problems;
+}
+
+export function formatParameterProblem(problem: ParameterProblem) {
+  return `${problem.name} (${problem.parameterId}) ${problem.message}`;
+}
@@ -0,0 +1,191 @@
+import { roundMoney } from "../../utils/money.js";
+import type { AllegroClient } from "./client.js";
+import type {
+  CheckoutForm,
+  LineItem,
+  PaymentOperation,
+  PaymentOperationGroup,
+  PaymentOperationsResponse,
+  PaymentOperator,
+  PaymentRefund,
+  PaymentRefundsResponse,
+  RefundRequest,
+  WalletType,
+} from "./types/index.js";
+
+const PAYMENT_OPERATIONS_PAGE_SIZE = 50;
+const INACTIVE_REFUND_STATUSES = ["CANCELED", "CANCELLED", "ERROR"];
+
+export interface RefundableLineItem {
+  quantity: number;
+  value: number;
+}
+
+export interface PaymentOperationFilters {
+  walletType?: WalletType;
+  paymentOperator?: PaymentOperator;
+  group?: PaymentOperationGroup[];
+  from?: string;
+  to?: string;
+  marketplaceId?: string;
+  paymentId?: string;
+  participantLogin?: string;
+  currency?: string;
+}
+
+export function getPaymentOperations(
+  client: AllegroClient,
+  filters: PaymentOperationFilters,
+  page: {
+    limit: number;
+    offset: number;
+  }
+) {
+  return client.get<PaymentOperationsResponse>("/payments/payment-operations", {
+    query: {
+      "wallet.type": filters.walletType,
+      "wallet.paymentOperator": filters.paymentOperator,
+      group: filters.group,
+      "occurredAt.gte": filters.from,
+      "occurredAt.lte": filters.to,
+      marketplaceId: filters.marketplaceId,
+      "payment.id": filters.paymentId,
+      "participant.login": filters.participantLogin,
+      currency: filters.currency,
+      ...page,
+    },
+  });
+}
+
+export async function collectPaymentOperations(
+  client: AllegroClient,
+  filters: PaymentOperationFilters,
+  options: {
+    maxOperations: number;
+    onPage?: (fetched: number, total: number) => Promise<void> | void;
+    signal?: AbortSignal;
+  }
+) {
+  const operations: PaymentOperation[] = [];
+  let totalCount = 0;
+  while (operations.length < options.maxOperations) {
+    options.signal?.throwIfAborted();
+    const page = await getPaymentOperations(client, filters, {
+      limit: Math.min(
+        PAYMENT_OPERATIONS_PAGE_SIZE,
+        options.maxOperations - operations.length
+      ),
+      offset: operations.length,
+    });
+    totalCount = page.totalCount;
+    operations.push(...page.paymentOperations);
+    await options.onPage?.(
+      operations.length,
+      Math.min(totalCount, options.maxOperations)
+    );
+    if (
+      page.paymentOperations.length === 0 ||
+      operations.length >= totalCount
+    ) {
+      break;
+    }
+  }
+  return { operations, totalCount };
+}
+
+export async function listPaymentRefunds(
+  client: AllegroClient,
+  paymentId: string
+) {
+  const response = await client.get<PaymentRefundsResponse>(
+    "/payments/refunds",
+    { query: { "payment.id": paymentId } }
+  );
+  return response.refunds;
+}
+
+export function createRefund(client: AllegroClient, refund: RefundRequest) {
+  return client.post<PaymentRefund>("/payments/refunds", { body: refund });
+}
+
+function activeRefunds(refunds: PaymentRefund[]) {
+  return refunds.filter((r) => !INACTIVE_REFUND_STATUSES.includes(r.status));
+}
+
+function refundedByLineItem(order: CheckoutForm, refunds: PaymentRefund[]) {
+  const prices = new Map(
+    order.lineItems.map((item) => [item.id, Number(item.price.amount)])
+  );
+  const refunded = new Map<string, { quantity: number; amount: number }>();
+  for (const item of refunds.flatMap((r) => r.lineItems ?? [])) {
+    const current = refunded.get(item.id) ?? { quantity: 0, amount: 0 };
+    const quantity = item.type === "QUANTITY" ? (item.quantity ?? 0) : 0;
+    current.quantity += quantity;
+    current.amount += item.value
+      ? Number(item.value.amount)
+      : quantity * (prices.get(item.id) ?? 0);
+    refunded.set(item.id, current);
+  }
+  return refunded;
+}
+
+export function refundableLineItems(
+  order: CheckoutForm,
+  refunds: PaymentRefund[]
+) {
+  const refunded = refundedByLineItem(order, activeRefunds(refunds));
+  return new Map<string, RefundableLineItem>(
+    order.lineItems.map((item) => {
+      const done = refunded.get(item.id);
+      const value = item.quantity * Number(item.price.amount);
+      return [
+        item.id,
+        {
+          quantity: Math.max(item.quantity - (done?.quantity ?? 0), 0),
+          value: Math.max(roundMoney(value - (done?.amount ?? 0)), 0),
+        },
+      ];
+    })
+  );
+}
+
+export function lineItemRefundAmount(
+  lineItem: LineItem,
+  quantity: number,
+  refundable: RefundableLineItem
+) {
+  return Math.min(
+    roundMoney(quantity * Number(lineItem.price.amount)),
+    refundable.value
+  );
+}
+
+export function refundableDelivery(
+  order: CheckoutForm,
+  refunds: PaymentRefund[]
+) {
+  const cost = Number(order.delivery?.cost.amount ?? 0);
+  const refunded = activeRefunds(refunds).reduce(
+    (sum, r) => sum + Number(r.delivery?.value.amount ?? 0),
+    0
+  );
+  return Math.max(0, roundMoney(cost - refunded));
+}
+
+export function refundableSurcharges(
+  order: CheckoutForm,
+  refunds: PaymentRefund[]
+) {
+  const refunded = activeRefunds(refunds).flatMap((r) => r.surcharges ?? []);
+  return (order.surcharges ?? [])
+    .map((s) => ({
+      id: s.id,
+      amount: roundMoney(
+        Number(s.paidAmount.amount) -
+          refunded
+            .filter((r) => r.id === s.id)
+            .reduce((sum, r) => sum + Number(r.value.amount), 0)
+      ),
+    }))
+    .filter((s) => s.amount > 0);
+}
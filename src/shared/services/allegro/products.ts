@@ -0,0 +1,43 @@
+import type { AllegroClient } from "./client.js";
+import type {
+  CatalogProduct,
+  ProductProposal,
+  ProductSearchMode,
+  ProductsResponse,
+} from "./types/index.js";
+
+export interface ProductSearchFilters {
+  phrase?: string;
+  mode?: ProductSearchMode;
+  categoryId?: string;
+  pageId?: string;
+}
+
+export function searchProducts(
+  client: AllegroClient,
+  filters: ProductSearchFilters
+) {
+  return client.get<ProductsResponse>("/sale/products", {
+    query: {
+      phrase: filters.phrase,
+      mode: filters.mode,
+      "category.id": filters.categoryId,
+      "page.id": filters.pageId,
+    },
+  });
+}
+
+export function getProduct(client: AllegroClient, productId: string) {
+  return client.get<CatalogProduct>(
+    `/sale/products/${encodeURIComponent(productId)}`
+  );
+}
+
+export function proposeProduct(
+  client: AllegroClient,
+  proposal: ProductProposal
+) {
+  return client.post<CatalogProduct>("/sale/product-proposals", {
+    body: proposal,
+  });
+}
@@ -0,0 +1,123 @@
+import type { AllegroClient } from "./client.js";
+import type {
+  RatingAnswer,
+  RatingRemoval,
+  UserRating,
+  UserRatingsResponse,
+} from "./types/index.js";
+
+export const RATINGS_PAGE_SIZE = 100;
+const MAX_COLLECTED_RATINGS = 10_000;
+const MAX_SCANNED_RATINGS = 1000;
+
+export interface RatingFilters {
+  recommended?: boolean;
+  changedFrom?: string;
+  changedTo?: string;
+}
+
+function ratingPath(ratingId: string) {
+  return `/sale/user-ratings/${encodeURIComponent(ratingId)}`;
+}
+
+export function listUserRatings(
+  client: AllegroClient,
+  userId: string,
+  filters: RatingFilters,
+  page: {
+    limit: number;
+    offset: number;
+  }
+) {
+  return client.get<UserRatingsResponse>("/sale/user-ratings", {
+    query: {
+      "user.id": userId,
+      recommended: filters.recommended,
+      "lastChangedAt.gte": filters.changedFrom,
+      "lastChangedAt.lte": filters.changedTo,
+      ...page,
+    },
+  });
+}
+
+export async function collectUserRatings(
+  client: AllegroClient,
+  userId: string,
+  filters: RatingFilters
+) {
+  const ratings: UserRating[] = [];
+  for (let offset = 0; offset < MAX_COLLECTED_RATINGS; ) {
+    const page = await listUserRatings(client, userId, filters, {
+      limit: RATINGS_PAGE_SIZE,
+      offset,
+    });
+    ratings.push(...page.ratings);
+    offset += page.ratings.length;
+    if (page.ratings.length < RATINGS_PAGE_SIZE) {
+      return { ratings, complete: true };
+    }
+  }
+  return { ratings, complete: false };
+}
+
+export async function scanUserRatings(
+  client: AllegroClient,
+  userId: string,
+  filters: RatingFilters,
+  page: {
+    limit: number;
+    offset: number;
+  },
+  matches: (rating: UserRating) => boolean
+) {
+  const ratings: UserRating[] = [];
+  let offset = page.offset;
+  while (offset < page.offset + MAX_SCANNED_RATINGS) {
+    const response = await listUserRatings(client, userId, filters, {
+      limit: RATINGS_PAGE_SIZE,
+      offset,
+    });
+    const last = response.ratings.length < RATINGS_PAGE_SIZE;
+    for (const [index, rating] of response.ratings.entries()) {
+      if (matches(rating)) {
+        ratings.push(rating);
+      }
+      if (ratings.length === page.limit) {
+        const consumed = index + 1 === response.ratings.length;
+        return {
+          ratings,
+          nextOffset: last && consumed ? undefined : offset + index + 1,
+        };
+      }
+    }
+    offset += response.ratings.length;
+    if (last) {
+      return { ratings, nextOffset: undefined };
+    }
+  }
+  return { ratings, nextOffset: offset };
+}
+
+export function getUserRating(client: AllegroClient, ratingId: string) {
+  return client.get<UserRating>(ratingPath(ratingId));
+}
+
+export function answerUserRating(
+  client: AllegroClient,
+  ratingId: string,
+  message: string
+) {
+  return client.put<RatingAnswer>(`${ratingPath(ratingId)}/answer`, {
+    body: { message },
+  });
+}
+
+export function requestRatingRemoval(
+  client: AllegroClient,
+  ratingId: string,
+  message: string
+) {
+  return client.post<RatingRemoval>(`${ratingPath(ratingId)}/removal`, {
+    body: { request: { message } },
+  });
+}
@@ -0,0 +1,62 @@
+import type { AllegroClient } from "./client.js";
+import type {
+  CreateShipmentInput,
+  DeliveryServicesResponse,
+  ShipmentCreateCommand,
+} from "./types/index.js";
+
+export function listDeliveryServices(client: AllegroClient) {
+  return client.get<DeliveryServicesResponse>(
+    "/shipment-management/delivery-services"
+  );
+}
+
+export async function createShipment(
+  client: AllegroClient,
+  input: CreateShipmentInput
+) {
+  const commandId = crypto.randomUUID();
+  await client.post<ShipmentCreateCommand>(
+    "/shipment-management/shipments/create-commands",
+    { body: { commandId, input } }
+  );
+  return commandId;
+}
+
+export function getShipmentCommand(client: AllegroClient, commandId: string) {
+  return client.get<ShipmentCreateCommand>(
+    `/shipment-management/shipments/create-commands/${encodeURIComponent(commandId)}`
+  );
+}
+
+export type LabelFormat = CreateShipmentInput["labelFormat"];
+
+const LABEL_MIME_TYPES: Record<LabelFormat, string> = {
+  PDF: "application/pdf",
+  ZPL: "application/x-zpl",
+  EPL: "application/x-epl",
+};
+
+export async function getShipmentLabel(
+  client: AllegroClient,
+  shipmentIds: string[],
+  pageSize: "A4" | "A6",
+  labelFormat: LabelFormat
+) {
+  const response = await client.raw("POST", "/shipment-management/label", {
+    body: { shipmentIds, pageSize },
+    headers: { accept: "application/octet-stream" },
+  });
+  const contentType = response.headers
+    .get("content-type")
+    ?.split(";")[0]
+    ?.trim()
+    .toLowerCase();
+  return {
+    blob: Buffer.from(await response.arrayBuffer()).toString("base64"),
+    mimeType:
+      contentType && contentType !== "application/octet-stream"
+        ? contentType
+        : LABEL_MIME_TYPES[labelFormat],
+  };
+}
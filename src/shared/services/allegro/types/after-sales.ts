@@ -0,0 +1,55 @@
+export interface ReturnPolicy {
+  id: string;
+  name: string;
+  availability?: {
+    range: "FULL" | "RESTRICTED" | "DISABLED";
+    restrictionCause?: {
+      name: string;
+    } | null;
+  };
+  withdrawalPeriod?: string;
+  returnCost?: {
+    coveredBy: "SELLER" | "BUYER";
+  };
+  options?: Record<string, boolean>;
+}
+
+export interface ReturnPoliciesResponse {
+  returnPolicies: ReturnPolicy[];
+  count: number;
+}
+
+export interface ImpliedWarranty {
+  id: string;
+  name: string;
+  individual?: {
+    period: string;
+  } | null;
+  corporate?: {
+    period: string;
+  } | null;
+}
+
+export interface ImpliedWarrantiesResponse {
+  impliedWarranties: ImpliedWarranty[];
+  count: number;
+}
+
+export interface Warranty {
+  id: string;
+  name: string;
+  type?: string;
+  individual?: {
+    period?: string;
+    lifetime?: boolean;
+  } | null;
+  corporate?: {
+    period?: string;
+    lifetime?: boolean;
+  } | null;
+}
+
+export interface WarrantiesResponse {
+  warranties: Warranty[];
+  count: number;
+}
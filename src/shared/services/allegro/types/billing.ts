@@ -0,0 +1,26 @@
+import type { Money, NamedIdRef } from "./common.js";
+
+export interface BillingType {
+  id: string;
+  description: string;
+}
+
+export interface BillingEntry {
+  id: string;
+  occurredAt: string;
+  type: NamedIdRef;
+  offer?: NamedIdRef | null;
+  value: Money;
+  tax?: {
+    percentage?: string;
+    annotation?: string;
+  };
+  balance?: Money;
+  order?: {
+    id: string;
+  } | null;
+}
+
+export interface BillingEntriesResponse {
+  billingEntries: BillingEntry[];
+}
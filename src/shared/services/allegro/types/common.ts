@@ -0,0 +1,28 @@
+export interface Money {
+  amount: string;
+  currency: string;
+}
+
+export interface IdRef {
+  id: string;
+}
+
+export interface NamedIdRef {
+  id: string;
+  name?: string;
+}
+
+export interface Marketplace {
+  id: string;
+}
+
+export interface PagedResponse {
+  count: number;
+  totalCount: number;
+}
+
+export interface CurrentUser {
+  id: string;
+  login: string;
+  email?: string;
+}
@@ -0,0 +1,10 @@
+export type * from "./after-sales.js";
+export type * from "./billing.js";
+export type * from "./common.js";
+export type * from "./issue.js";
+export type * from "./messaging.js";
+export type * from "./order.js";
+export type * from "./payment.js";
+export type * from "./rating.js";
+export type * from "./sale.js";
+export type * from "./shipment.js";
@@ -0,0 +1,104 @@
+import type { IdRef, Money } from "./common.js";
+
+export type IssueType = "DISPUTE" | "CLAIM";
+
+export type IssueStatus =
+  | "DISPUTE_ONGOING"
+  | "DISPUTE_CLOSED"
+  | "DISPUTE_UNRESOLVED"
+  | "CLAIM_SUBMITTED"
+  | "CLAIM_ACCEPTED"
+  | "CLAIM_REJECTED";
+
+export type IssueExpectation =
+  | "REFUND"
+  | "PARTIAL_REFUND"
+  | "EXCHANGE"
+  | "REPAIR"
+  | "DIFFERENT";
+
+export type IssueChatStatus =
+  | "NEW"
+  | "BUYER_REPLIED"
+  | "SELLER_REPLIED"
+  | "ALLEGRO_ADVISOR_REPLIED";
+
+export interface Issue {
+  id: string;
+  type: IssueType;
+  referenceNumber?: string | null;
+  subject?: string | null;
+  description?: string | null;
+  createdAt: string;
+  currentState: {
+    status: IssueStatus;
+    statusDueDate?: string | null;
+  };
+  decisionDueDate?: string | null;
+  buyer: {
+    id: string;
+    login: string;
+  };
+  checkoutForm?: (IdRef & { createdAt?: string }) | null;
+  offer?: {
+    id: string;
+    name?: string;
+  } | null;
+  expectations?: Array<{
+    type: IssueExpectation;
+    refund?: Money | null;
+  }>;
+  reason?: {
+    type: string;
+    description?: string | null;
+  } | null;
+  returnRequired?: boolean | null;
+  chat?: {
+    lastMessage?: {
+      status: IssueChatStatus;
+      createdAt: string;
+    } | null;
+  } | null;
+}
+
+export interface IssuesResponse {
+  issues: Issue[];
+}
+
+export interface IssueChatMessage {
+  id: string;
+  text: string;
+  type?: "REGULAR" | "END_REQUEST" | "NEW_REQUEST";
+  createdAt: string;
+  author: {
+    login: string;
+    role: "BUYER" | "SELLER" | "ADMIN";
+  };
+  attachments?: Array<{
+    fileName: string;
+    url: string;
+  }>;
+}
+
+export interface IssueChatResponse {
+  chat: IssueChatMessage[];
+}
+
+export interface IssueMessage {
+  text: string;
+  type: "REGULAR" | "END_REQUEST";
+  attachment?: IdRef;
+}
+
+export interface IssueStatusChange {
+  status: "ACCEPTED" | "REJECTED";
+  message: string;
+  expectation?: {
+    type: Exclude<IssueExpectation, "DIFFERENT">;
+    refund?: Money;
+  };
+}
+
+export interface IssueAttachmentDeclaration {
+  id: string;
+}
@@ -0,0 +1,61 @@
+import type { IdRef } from "./common.js";
+
+export interface MessagingInterlocutor {
+  login: string;
+  avatarUrl?: string | null;
+}
+
+export interface MessageThread {
+  id: string;
+  read: boolean;
+  lastMessageDateTime: string;
+  interlocutor: MessagingInterlocutor;
+}
+
+export interface MessageThreadsResponse {
+  threads: MessageThread[];
+  offset: number;
+  limit: number;
+}
+
+export interface MessageAttachment {
+  fileName: string;
+  url: string;
+  mimeType?: string;
+  status?: "UNSAFE" | "SAFE" | "UNVERIFIED";
+}
+
+export interface Message {
+  id: string;
+  status: "VERIFYING" | "BLOCKED" | "DELIVERED";
+  type: "ASK_QUESTION" | "MAIL" | "MESSAGE_CENTER";
+  createdAt: string;
+  thread: IdRef;
+  author: {
+    login: string;
+    isInterlocutor: boolean;
+  };
+  text: string;
+  subject?: string | null;
+  relatesTo?: {
+    offer?: IdRef | null;
+    order?: IdRef | null;
+  };
+  hasAdditionalAttachments?: boolean;
+  attachments?: MessageAttachment[];
+}
+
+export interface MessagesResponse {
+  messages: Message[];
+  offset: number;
+  limit: number;
+}
+
+export interface MessageAttachmentDeclaration {
+  id: string;
+}
+
+export interface NewMessage {
+  text: string;
+  attachments?: IdRef[];
+}
@@ -0,0 +1,314 @@
+import type { IdRef, Marketplace, Money, PagedResponse } from "./common.js";
+
+export type CheckoutFormStatus =
+  | "BOUGHT"
+  | "FILLED_IN"
+  | "READY_FOR_PROCESSING"
+  | "CANCELLED";
+
+export type FulfillmentStatus =
+  | "NEW"
+  | "PROCESSING"
+  | "READY_FOR_SHIPMENT"
+  | "READY_FOR_PICKUP"
+  | "SENT"
+  | "PICKED_UP"
+  | "CANCELLED"
+  | "SUSPENDED"
+  | "RETURNED";
+
+export interface Address {
+  firstName?: string;
+  lastName?: string;
+  companyName?: string | null;
+  street?: string;
+  city?: string;
+  zipCode?: string;
+  postCode?: string;
+  countryCode?: string;
+  phoneNumber?: string | null;
+}
+
+export interface Buyer {
+  id: string;
+  email: string;
+  login: string;
+  firstName?: string;
+  lastName?: string;
+  companyName?: string | null;
+  guest: boolean;
+  personalIdentity?: string | null;
+  phoneNumber?: string | null;
+  address?: Address | null;
+  preferences?: {
+    language?: string;
+  };
+}
+
+export interface LineItem {
+  id: string;
+  offer: {
+    id: string;
+    name: string;
+    external?: IdRef | null;
+  };
+  quantity: number;
+  originalPrice: Money;
+  price: Money;
+  reconciliation?: {
+    value: Money;
+    type: string;
+    quantity: number;
+  } | null;
+  selectedAdditionalServices?: Array<{
+    definitionId: string;
+    name: string;
+    price: Money;
+    quantity: number;
+  }>;
+  boughtAt: string;
+}
+
+export interface Payment {
+  id: string;
+  type: "CASH_ON_DELIVERY" | "WIRE_TRANSFER" | "ONLINE" | "SPLIT_PAYMENT";
+  provider?: string | null;
+  finishedAt?: string | null;
+  paidAmount?: Money | null;
+  reconciliation?: Money | null;
+  features?: string[];
+}
+
+export interface PickupPoint {
+  id: string;
+  name?: string;
+  description?: string | null;
+  address?: Address;
+}
+
+export interface Delivery {
+  address?: Address | null;
+  method: {
+    id: string;
+    name?: string;
+  };
+  pickupPoint?: PickupPoint | null;
+  cost: Money;
+  time?: {
+    from?: string;
+    to?: string;
+    guaranteed?: {
+      from?: string;
+      to?: string;
+    } | null;
+    dispatch?: {
+      from?: string;
+      to?: string;
+    } | null;
+  } | null;
+  smart?: boolean;
+  calculatedNumberOfPackages?: number;
+}
+
+export interface InvoiceAddress extends Address {
+  naturalPerson?: {
+    firstName: string;
+    lastName: string;
+  } | null;
+  company?: {
+    name: string;
+    taxId?: string | null;
+  } | null;
+}
+
+export interface Invoice {
+  required: boolean;
+  address?: InvoiceAddress | null;
+  dueDate?: string | null;
+  features?: string[];
+}
+
+export interface Surcharge {
+  id: string;
+  type: string;
+  provider?: string;
+  finishedAt?: string;
+  paidAmount: Money;
+  reconciliation?: Money | null;
+}
+
+export interface Discount {
+  type: string;
+}
+
+export interface CheckoutFormSummary {
+  totalToPay: Money;
+}
+
+export interface CheckoutForm {
+  id: string;
+  messageToSeller?: string | null;
+  buyer: Buyer;
+  payment?: Payment | null;
+  status: CheckoutFormStatus;
+  fulfillment?: {
+    status: FulfillmentStatus;
+    shipmentSummary?: {
+      lineItemsSent: "NONE" | "SOME" | "ALL";
+    };
+  } | null;
+  delivery?: Delivery | null;
+  invoice?: Invoice | null;
+  lineItems: LineItem[];
+  surcharges?: Surcharge[];
+  discounts?: Discount[];
+  note?: {
+    text: string;
+  } | null;
+  marketplace?: Marketplace;
+  summary: CheckoutFormSummary;
+  updatedAt: string;
+  revision: string;
+}
+
+export interface CheckoutFormsResponse extends PagedResponse {
+  checkoutForms: CheckoutForm[];
+}
+
+export type OrderEventType =
+  | "BOUGHT"
+  | "FILLED_IN"
+  | "READY_FOR_PROCESSING"
+  | "BUYER_CANCELLED"
+  | "FULFILLMENT_STATUS_CHANGED"
+  | "AUTO_CANCELLED";
+
+export interface OrderEvent {
+  id: string;
+  type: OrderEventType;
+  occurredAt: string;
+  order: {
+    checkoutForm: IdRef & {
+      revision?: string;
+    };
+    buyer?: {
+      id: string;
+      login: string;
+    };
+    lineItems?: Array<{
+      id: string;
+      offer: IdRef;
+    }>;
+    seller?: IdRef;
+  };
+}
+
+export interface OrderEventsResponse {
+  events: OrderEvent[];
+}
+
+export interface OrderEventStats {
+  latestEvent: {
+    id: string;
+    occurredAt: string;
+  } | null;
+}
+
+export interface Carrier {
+  id: string;
+  name: string;
+  trackingUrl?: string | null;
+}
+
+export interface CarriersResponse {
+  carriers: Carrier[];
+}
+
+export interface OrderShipment {
+  id: string;
+  waybill: string;
+  carrierId: string;
+  carrierName?: string | null;
+  createdAt: string;
+  lineItems?: IdRef[];
+}
+
+export interface TrackingStatus {
+  occurredAt: string;
+  code: string;
+  description?: string | null;
+}
+
+export interface WaybillTracking {
+  waybill: string;
+  trackingDetails?: {
+    statuses: TrackingStatus[];
+    createdAt?: string;
+    updatedAt?: string;
+  } | null;
+}
+
+export interface CarrierTrackingResponse {
+  carrierId: string;
+  waybills: WaybillTracking[];
+}
+
+export type CustomerReturnStatus =
+  | "CREATED"
+  | "DISPATCHED"
+  | "IN_TRANSIT"
+  | "DELIVERED"
+  | "FINISHED"
+  | "FINISHED_APT"
+  | "REJECTED"
+  | "COMMISSION_REFUND_CLAIMED"
+  | "COMMISSION_REFUNDED"
+  | "WAREHOUSE_DELIVERED"
+  | "WAREHOUSE_VERIFICATION";
+
+export interface CustomerReturnItem {
+  offerId: string;
+  quantity: number;
+  name: string;
+  price: Money;
+  url?: string | null;
+  reason?: {
+    type: string;
+    userComment?: string | null;
+  } | null;
+}
+
+export interface CustomerReturnParcel {
+  createdAt: string;
+  waybill?: string | null;
+  transportingWaybill?: string | null;
+  carrierId?: string | null;
+  transportingCarrierId?: string | null;
+}
+
+export interface CustomerReturn {
+  id: string;
+  referenceNumber: string;
+  orderId: string;
+  createdAt: string;
+  status: CustomerReturnStatus;
+  buyer: {
+    login: string;
+    email?: string;
+  };
+  items: CustomerReturnItem[];
+  parcels?: CustomerReturnParcel[];
+  marketplaceId?: string | null;
+}
+
+export interface CustomerReturnsResponse {
+  customerReturns: CustomerReturn[];
+  count: number;
+}
+
+export type CustomerReturnRejectionCode = "REFUND_REJECTED";
+
+export interface CustomerReturnRejection {
+  code: CustomerReturnRejectionCode;
+  reason: string;
+}
@@ -0,0 +1,82 @@
+import type { Money } from "./common.js";
+
+export type WalletType = "AVAILABLE" | "WAITING";
+
+export type PaymentOperator = "PAYU" | "P24" | "AF" | "AF_PAYU" | "AF_P24";
+
+export type PaymentOperationGroup =
+  | "INCOME"
+  | "OUTCOME"
+  | "REFUND"
+  | "BLOCKADE";
+
+export interface PaymentOperation {
+  type: string;
+  group: PaymentOperationGroup;
+  occurredAt: string;
+  value: Money;
+  wallet: {
+    type: WalletType;
+    paymentOperator: PaymentOperator;
+    balance: Money;
+  };
+  payment?: {
+    id: string;
+  } | null;
+  participant?: {
+    id?: string;
+    login?: string;
+    companyName?: string | null;
+  } | null;
+  payout?: {
+    id: string;
+  } | null;
+  marketplaceId?: string | null;
+}
+
+export interface PaymentOperationsResponse {
+  paymentOperations: PaymentOperation[];
+  count: number;
+  totalCount: number;
+}
+
+export type RefundReason =
+  | "REFUND"
+  | "COMPLAINT"
+  | "PRODUCT_NOT_AVAILABLE"
+  | "PAID_VALUE_TOO_LOW";
+
+export interface RefundLineItem {
+  id: string;
+  type: "AMOUNT" | "QUANTITY";
+  quantity?: number;
+  value?: Money;
+}
+
+export interface RefundRequest {
+  payment: {
+    id: string;
+  };
+  reason: RefundReason;
+  lineItems?: RefundLineItem[];
+  delivery?: {
+    value: Money;
+  };
+  surcharges?: Array<{
+    id: string;
+    value: Money;
+  }>;
+  sellerComment?: string;
+}
+
+export interface PaymentRefund extends RefundRequest {
+  id: string;
+  status: string;
+  createdAt: string;
+  totalValue?: Money;
+}
+
+export interface PaymentRefundsResponse {
+  refunds: PaymentRefund[];
+  count: number;
+}
@@ -0,0 +1,43 @@
+import type { IdRef } from "./common.js";
+
+export interface RatingRates {
+  delivery?: number | null;
+  deliveryCost?: number | null;
+  description?: number | null;
+  service?: number | null;
+}
+
+export interface RatingAnswer {
+  message: string;
+  createdAt: string;
+}
+
+export interface RatingRemoval {
+  request?: {
+    message: string;
+    createdAt: string;
+  } | null;
+  status?: string | null;
+}
+
+export interface UserRating {
+  id: string;
+  createdAt: string;
+  lastChangedAt?: string | null;
+  buyer: {
+    id: string;
+    login: string;
+  };
+  recommended: boolean;
+  rates?: RatingRates | null;
+  comment?: string | null;
+  order?: IdRef | null;
+  answer?: RatingAnswer | null;
+  removal?: RatingRemoval | null;
+  excludedFromAverageRates?: boolean;
+  excludedFromAverageRatesReason?: string | null;
+}
+
+export interface UserRatingsResponse {
+  ratings: UserRating[];
+}
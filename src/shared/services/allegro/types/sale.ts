@@ -0,0 +1,359 @@
+import type {
+  IdRef,
+  Marketplace,
+  Money,
+  NamedIdRef,
+  PagedResponse,
+} from "./common.js";
+
+export type PublicationStatus = "INACTIVE" | "ACTIVATING" | "ACTIVE" | "ENDED";
+
+export type SellingModeFormat = "BUY_NOW" | "AUCTION" | "ADVERTISEMENT";
+
+export interface SellingMode {
+  format: SellingModeFormat;
+  price?: Money;
+  minimalPrice?: Money | null;
+  startingPrice?: Money | null;
+}
+
+export interface OfferListItem {
+  id: string;
+  name: string;
+  category: IdRef;
+  primaryImage?: {
+    url: string;
+  } | null;
+  sellingMode: SellingMode;
+  saleInfo?: {
+    currentPrice?: Money | null;
+    biddersCount?: number;
+  };
+  stock: {
+    available: number;
+    sold?: number;
+  };
+  stats?: {
+    watchersCount: number;
+    visitsCount: number;
+  };
+  publication: {
+    status: PublicationStatus;
+    startingAt?: string | null;
+    startedAt?: string | null;
+    endingAt?: string | null;
+    endedAt?: string | null;
+    marketplaces?: {
+      base: Marketplace;
+      additional: Marketplace[];
+    };
+  };
+  external?: IdRef | null;
+  delivery?: {
+    shippingRates?: NamedIdRef | null;
+  };
+  afterSalesServices?: AfterSalesServicesRefs | null;
+}
+
+export interface OfferListResponse extends PagedResponse {
+  offers: OfferListItem[];
+}
+
+export interface AfterSalesServicesRefs {
+  impliedWarranty?: NamedIdRef | null;
+  returnPolicy?: NamedIdRef | null;
+  warranty?: NamedIdRef | null;
+}
+
+export interface ParameterValue {
+  id: string;
+  name?: string;
+  values?: string[];
+  valuesIds?: string[];
+  rangeValue?: {
+    from: string;
+    to: string;
+  } | null;
+}
+
+export interface DescriptionItem {
+  type: "TEXT" | "IMAGE";
+  content?: string;
+  url?: string;
+}
+
+export interface DescriptionSection {
+  items: DescriptionItem[];
+}
+
+export interface Description {
+  sections: DescriptionSection[];
+}
+
+export interface ProductSetElement {
+  product: {
+    id: string;
+    parameters?: ParameterValue[];
+  };
+  quantity?: {
+    value: number;
+  };
+  responsibleProducer?: IdRef | null;
+  safetyInformation?: unknown;
+}
+
+export interface ProductOffer {
+  id: string;
+  name: string;
+  category: IdRef;
+  productSet?: ProductSetElement[];
+  parameters?: ParameterValue[];
+  images?: string[];
+  description?: Description;
+  sellingMode?: SellingMode;
+  stock?: {
+    available: number;
+    unit?: "UNIT" | "PAIR" | "SET";
+  };
+  delivery?: {
+    shippingRates?: NamedIdRef | null;
+    handlingTime?: string | null;
+    additionalInfo?: string | null;
+    shipmentDate?: string | null;
+  };
+  afterSalesServices?: AfterSalesServicesRefs | null;
+  payments?: {
+    invoice?: "VAT" | "VAT_MARGIN" | "WITHOUT_VAT" | "NO_INVOICE";
+  };
+  location?: {
+    city?: string;
+    countryCode?: string;
+    postCode?: string;
+    province?: string;
+  };
+  external?: IdRef | null;
+  publication?: {
+    status: PublicationStatus;
+    duration?: string | null;
+    startingAt?: string | null;
+    endingAt?: string | null;
+    endedBy?: string | null;
+    republish?: boolean;
+  };
+  validation?: {
+    errors: Array<{
+      code: string;
+      message: string;
+      path?: string;
+      userMessage?: string;
+    }>;
+    validatedAt?: string;
+  };
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface Category {
+  id: string;
+  name: string;
+  leaf: boolean;
+  parent?: IdRef | null;
+  options?: {
+    advertisement?: boolean;
+    offersWithProductPublicationEnabled?: boolean;
+    productCreationEnabled?: boolean;
+  };
+}
+
+export interface CategoriesResponse {
+  categories: Category[];
+}
+
+export interface MatchingCategory {
+  id: string;
+  name: string;
+  parent?: MatchingCategory | null;
+}
+
+export interface MatchingCategoriesResponse {
+  matchingCategories: MatchingCategory[];
+}
+
+export type CategoryParameterType =
+  | "integer"
+  | "float"
+  | "string"
+  | "dictionary";
+
+export interface CategoryParameter {
+  id: string;
+  name: string;
+  type: CategoryParameterType;
+  required: boolean;
+  requiredForProduct?: boolean;
+  unit?: string | null;
+  dictionary?: Array<{
+    id: string;
+    value: string;
+    dependsOnValueIds?: string[];
+  }>;
+  restrictions?: {
+    min?: number;
+    max?: number;
+    range?: boolean;
+    precision?: number;
+    minLength?: number;
+    maxLength?: number;
+    allowedNumberOfValues?: number;
+    multipleChoices?: boolean;
+    customValuesEnabled?: boolean;
+  };
+  options?: {
+    describesProduct?: boolean;
+    customValuesEnabled?: boolean;
+    ambiguousValueId?: string | null;
+    dependsOnParameterId?: string | null;
+    requiredDependsOnValueIds?: string[] | null;
+    displayDependsOnValueIds?: string[] | null;
+  };
+}
+
+export interface CategoryParametersResponse {
+  parameters: CategoryParameter[];
+}
+
+export interface OfferCriteria {
+  type: "CONTAINS_OFFERS";
+  offers: IdRef[];
+}
+
+export type PriceModificationType =
+  | "FIXED_PRICE"
+  | "INCREASE_PRICE"
+  | "DECREASE_PRICE"
+  | "INCREASE_PERCENTAGE"
+  | "DECREASE_PERCENTAGE";
+
+export interface OfferPriceChangeCommand {
+  id?: string;
+  modification: {
+    type: PriceModificationType;
+    price?: Money;
+    percentage?: string;
+  };
+  offerCriteria: OfferCriteria[];
+}
+
+export interface OfferQuantityChangeCommand {
+  id?: string;
+  modification: {
+    changeType: "FIXED" | "GAIN";
+    value: number;
+  };
+  offerCriteria: OfferCriteria[];
+}
+
+export interface CommandTaskCount {
+  total: number;
+  success: number;
+  failed: number;
+}
+
+export interface CommandStatus {
+  id: string;
+  taskCount: CommandTaskCount;
+}
+
+export interface CommandTask {
+  offer: IdRef;
+  status: "NEW" | "SUCCESS" | "FAIL";
+  message?: string;
+  scheduledAt?: string;
+  finishedAt?: string;
+  field?: string;
+}
+
+export interface CommandTasksResponse {
+  tasks: CommandTask[];
+}
+
+export type OfferEventType =
+  | "OFFER_ACTIVATED"
+  | "OFFER_CHANGED"
+  | "OFFER_ENDED"
+  | "OFFER_STOCK_CHANGED"
+  | "OFFER_PRICE_CHANGED"
+  | "OFFER_ARCHIVED"
+  | "OFFER_BID_PLACED"
+  | "OFFER_BID_CANCELED"
+  | "OFFER_TRANSLATION_UPDATED"
+  | "OFFER_VISIBILITY_CHANGED";
+
+export interface OfferEvent {
+  id: string;
+  type: OfferEventType;
+  occurredAt: string;
+  offer: IdRef & {
+    external?: IdRef | null;
+  };
+}
+
+export interface OfferEventsResponse {
+  events: OfferEvent[];
+}
+
+export interface CatalogProductParameter extends ParameterValue {
+  valuesLabels?: string[];
+  unit?: string | null;
+  options?: {
+    identifiesProduct?: boolean;
+    isGTIN?: boolean;
+  };
+}
+
+export interface CatalogProduct {
+  id: string;
+  name: string;
+  category: IdRef & {
+    similar?: IdRef[];
+  };
+  images?: Array<{
+    url: string;
+  }>;
+  parameters?: CatalogProductParameter[];
+  description?: Description | null;
+}
+
+export type ProductSearchMode = "GTIN" | "MPN" | "MODEL";
+
+export interface ProductsResponse {
+  products: CatalogProduct[];
+  nextPage?: {
+    id: string;
+  } | null;
+}
+
+export interface ShippingRatesSet {
+  id: string;
+  name: string;
+  marketplaces?: Marketplace[];
+}
+
+export interface ShippingRatesResponse {
+  shippingRates: ShippingRatesSet[];
+}
+
+export interface ProductProposal {
+  name: string;
+  category: IdRef;
+  parameters: ParameterValue[];
+  images: Array<{
+    url: string;
+  }>;
+  language: string;
+}
+
+export interface UploadedImage {
+  location: string;
+  expiresAt?: string;
+}
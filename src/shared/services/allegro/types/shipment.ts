@@ -0,0 +1,94 @@
+export interface DeliveryServiceId {
+  deliveryMethodId: string;
+  credentialsId?: string | null;
+}
+
+export interface DeliveryService {
+  id: DeliveryServiceId;
+  name: string;
+  carrierId: string;
+  owner: "ALLEGRO" | "CLIENT";
+  marketplaces?: string[];
+  packageTypes?: string[];
+  features?: string[];
+  additionalServices?: Array<{
+    id: string;
+    name: string;
+    description?: string;
+  }>;
+  cashOnDelivery?: {
+    limit?: string;
+    currency?: string;
+  } | null;
+  insurance?: {
+    limit?: string;
+    currency?: string;
+  } | null;
+}
+
+export interface DeliveryServicesResponse {
+  services: DeliveryService[];
+}
+
+export interface ShipmentAddress {
+  name: string;
+  company?: string | null;
+  street: string;
+  postalCode: string;
+  city: string;
+  countryCode: string;
+  email: string;
+  phone: string;
+  point?: string | null;
+}
+
+export interface ShipmentDimension {
+  value: number;
+  unit: "CENTIMETER";
+}
+
+export interface ShipmentPackage {
+  type: "PACKAGE" | "DOX" | "PALLET" | "OTHER";
+  length: ShipmentDimension;
+  width: ShipmentDimension;
+  height: ShipmentDimension;
+  weight: {
+    value: number;
+    unit: "KILOGRAMS";
+  };
+  textOnLabel?: string;
+}
+
+export interface CreateShipmentInput {
+  deliveryMethodId: string;
+  credentialsId?: string | null;
+  sender: ShipmentAddress;
+  receiver: ShipmentAddress;
+  pickup?: {
+    name?: string;
+    street: string;
+    postalCode: string;
+    city: string;
+    countryCode: string;
+    email?: string;
+    phone?: string;
+  };
+  referenceNumber?: string;
+  description?: string;
+  packages: ShipmentPackage[];
+  labelFormat: "PDF" | "ZPL" | "EPL";
+}
+
+export type ShipmentCommandStatus = "IN_PROGRESS" | "SUCCESS" | "ERROR";
+
+export interface ShipmentCreateCommand {
+  commandId: string;
+  status: ShipmentCommandStatus;
+  errors?: Array<{
+    code: string;
+    message: string;
+    userMessage?: string | null;
+    path?: string | null;
+  }>;
+  shipmentId?: string | null;
+}
@@ -0,0 +1,75 @@
+import type { ToolContext } from "../tools/types.js";
+import { logger } from "../utils/logger.js";
+import { getAllegroAccountId } from "./allegro/accounts.js";
+
+export interface AuditEntry {
+  at: string;
+  action: string;
+  target: string;
+  outcome: string;
+  sessionId: string;
+  requestId?: string;
+  authStrategy?: string;
+  accountId: string | null;
+  details?: Record<string, unknown>;
+}
+
+export function recordAudit(
+  context: ToolContext,
+  event: {
+    action: string;
+    target: string;
+    outcome: string;
+    details?: Record<string, unknown>;
+  }
+) {
+  const entry: AuditEntry = {
+    at: new Date().toISOString(),
+    ...event,
+    sessionId: context.sessionId,
+    requestId: context.meta?.requestId,
+    authStrategy: context.authStrategy,
+    accountId: context.providerToken
+      ? getAllegroAccountId(context.providerToken)
+      : null,
+  };
+  logger.info("audit", {
+    message: `${event.action} ${event.outcome}`,
+    ...entry,
+  });
+  return entry;
+}
+
+export type AuditRecorder = (
+  outcome: string,
+  details?: Record<string, unknown>
+) => AuditEntry;
+
+export function createAuditRecorder(
+  context: ToolContext,
+  event: {
+    action: string;
+    target: string;
+    details?: Record<string, unknown>;
+  }
+): AuditRecorder {
+  return (outcome, details) =>
+    recordAudit(context, {
+      action: event.action,
+      target: event.target,
+      outcome,
+      details: { ...event.details, ...details },
+    });
+}
+
+export async function withAudit<T>(
+  audit: AuditRecorder,
+  run: () => Promise<T>
+) {
+  try {
+    return await run();
+  } catch (error) {
+    audit("failed", { error: (error as Error).message });
+    throw error;
+  }
+}
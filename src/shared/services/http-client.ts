@@ -24,11 +24,25 @@ export interface HttpClientOptions {
     burst: number;
   };
   concurrency?: number;
+  limiter?: HttpLimiter;
+}
+
+export interface HttpLimiter {
+  run: <T>(task: () => Promise<T>) => Promise<T>;
 }
 
 const DEFAULT_RPS = 10;
 const DEFAULT_CONCURRENCY = 5;
 
+function isRetryableStatus(status: number) {
+  return status === 429 || status >= 500;
+}
+
+function retryAfterMs(response: Response) {
+  const seconds = Number(response.headers.get("retry-after"));
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+}
+
 function resolveUrl(input: HttpClientInput): string {
   if (typeof input === "string") {
     return input;
@@ -40,27 +54,40 @@ function resolveUrl(input: HttpClientInput): string {
   return withUrl?.url ?? String(input);
 }
 
+export function createHttpLimiter(
+  options: Pick<HttpClientOptions, "rateLimit" | "concurrency"> = {}
+): HttpLimiter {
+  const {
+    rateLimit = { rps: DEFAULT_RPS, burst: DEFAULT_RPS * 2 },
+    concurrency = DEFAULT_CONCURRENCY,
+  } = options;
+  const rateLimiter = makeTokenBucket(rateLimit.burst, rateLimit.rps);
+  const concurrencyGate = makeConcurrencyGate(concurrency);
+  return {
+    run: (task) =>
+      concurrencyGate(async () => {
+        while (!rateLimiter.take()) {
+          await new Promise((resolve) =>
+            setTimeout(resolve, 1000 / rateLimit.rps)
+          );
+        }
+        return await task();
+      }),
+  };
+}
+
 export function createHttpClient(options: HttpClientOptions = {}) {
   const {
     baseHeaders = {},
     timeout = 30_000,
     retries = 3,
     retryDelay = 1000,
-    rateLimit = { rps: DEFAULT_RPS, burst: DEFAULT_RPS * 2 },
-    concurrency = DEFAULT_CONCURRENCY,
+    limiter = createHttpLimiter(options),
   } = options;
-  const rateLimiter = makeTokenBucket(rateLimit.burst, rateLimit.rps);
-  const concurrencyGate = makeConcurrencyGate(concurrency);
   return async (input: HttpClientInput, init?: RequestInit) => {
-    return await concurrencyGate(
-      // biome-ignore lint/complexity/noExcessiveCognitiveComplexity: retry + rate-limit logic requires branches
+    return await limiter.run(
+      // biome-ignore lint/complexity/noExcessiveCognitiveComplexity: retry logic requires branches
       async () => {
-        if (!rateLimiter.take()) {
-          logger.warning("http_client", {
-            message: "Rate limit exceeded, request rejected",
-          });
-          throw new Error("Rate limit exceeded");
-        }
         const url = resolveUrl(input);
         const method = init?.method || "GET";
         logger.debug("http_client", {
@@ -69,19 +96,25 @@ export function createHttpClient(options: HttpClientOptions = {}) {
           method,
         });
         for (let attempt = 1; attempt <= retries; attempt++) {
+          const controller = new AbortController();
+          const timeoutId = setTimeout(() => controller.abort(), timeout);
           try {
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), timeout);
             const response = await fetch(url, {
               ...init,
               headers: {
                 ...baseHeaders,
                 ...init?.headers,
               },
-              signal: controller.signal,
+              signal: init?.signal
+                ? AbortSignal.any([init.signal, controller.signal])
+                : controller.signal,
             });
             clearTimeout(timeoutId);
-            if (response.ok || attempt === retries) {
+            if (
+              response.ok ||
+              !isRetryableStatus(response.status) ||
+              attempt === retries
+            ) {
               logger.info("http_client", {
                 message: "HTTP request completed",
                 url,
@@ -99,9 +132,14 @@ export function createHttpClient(options: HttpClientOptions = {}) {
               attempt,
             });
             const delay =
+              retryAfterMs(response) ??
               retryDelay * 2 ** (attempt - 1) + Math.random() * 1000;
             await new Promise((resolve) => setTimeout(resolve, delay));
           } catch (error) {
+            clearTimeout(timeoutId);
+            if (init?.signal?.aborted) {
+              throw error;
+            }
             if (attempt === retries) {
               logger.error("http_client", {
                 message: "HTTP request failed after all retries",
@@ -23,6 +23,7 @@ interface PersistShape {
   version: number;
   encrypted: boolean;
   records: RsRecord[];
+  eventCursors?: Record<string, string>;
 }
 
 export class FileTokenStore implements TokenStore {
@@ -139,6 +140,9 @@ export class FileTokenStore implements TokenStore {
         memoryMap.rsAccessMap.set(rec.rs_access_token, recordWithExpiry);
         memoryMap.rsRefreshMap.set(rec.rs_refresh_token, recordWithExpiry);
       }
+      for (const [key, eventId] of Object.entries(data.eventCursors ?? {})) {
+        await this.memory.saveEventCursor(key, eventId);
+      }
       logger.debug("file_token_store", {
         message: "Records loaded successfully",
         total: data.records.length,
@@ -184,12 +188,14 @@ export class FileTokenStore implements TokenStore {
       }
       const memoryMap = this.memory as unknown as {
         rsAccessMap: Map<string, RsRecord>;
+        eventCursors: Map<string, string>;
       };
       const records = Array.from(memoryMap.rsAccessMap.values());
       const data: PersistShape = {
         version: 1,
         encrypted: Boolean(this.encryptor),
         records,
+        eventCursors: Object.fromEntries(memoryMap.eventCursors),
       };
       let content = JSON.stringify(data, null, 2);
       if (this.encryptor) {
@@ -278,6 +284,13 @@ export class FileTokenStore implements TokenStore {
 
   deleteCode = (code: string) => this.memory.deleteCode(code);
 
+  getEventCursor = (key: string) => this.memory.getEventCursor(key);
+
+  async saveEventCursor(key: string, eventId: string) {
+    await this.memory.saveEventCursor(key, eventId);
+    this.scheduleSave();
+  }
+
   async flush() {
     if (this.saveDebounceTimer) {
       clearTimeout(this.saveDebounceTimer);
@@ -1,8 +1,11 @@
+import type { AllegroEnvironment } from "../config/allegro.js";
+
 export interface ProviderTokens {
   access_token: string;
   refresh_token?: string;
   expires_at?: number;
   scopes?: string[];
+  environment?: AllegroEnvironment;
 }
 
 export interface RsRecord {
@@ -55,6 +58,8 @@ export interface TokenStore {
   saveCode(code: string, txnId: string, ttlSeconds?: number): Promise<void>;
   getTxnIdByCode(code: string): Promise<string | null>;
   deleteCode(code: string): Promise<void>;
+  getEventCursor(key: string): Promise<string | null>;
+  saveEventCursor(key: string, eventId: string): Promise<void>;
 }
 
 export const MAX_SESSIONS_PER_API_KEY = 5;
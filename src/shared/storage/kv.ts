@@ -219,6 +219,25 @@ export class KvTokenStore implements TokenStore {
   async deleteCode(code: string) {
     await this.fallback.deleteCode(code);
   }
+
+  async getEventCursor(key: string) {
+    const obj = await this.getJson<{
+      v: string;
+    }>(`cursor:${key}`);
+    return obj?.v ?? (await this.fallback.getEventCursor(key));
+  }
+
+  async saveEventCursor(key: string, eventId: string) {
+    await this.fallback.saveEventCursor(key, eventId);
+    try {
+      await this.putJson(`cursor:${key}`, { v: eventId });
+    } catch (error) {
+      console.warn(
+        "[KV] Failed to save event cursor (using memory):",
+        (error as Error).message
+      );
+    }
+  }
 }
 
 const SESSION_KEY_PREFIX = "session:";
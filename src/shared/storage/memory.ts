@@ -75,6 +75,7 @@ export class MemoryTokenStore implements TokenStore {
   >();
   protected transactions = new Map<string, TimedEntry<Transaction>>();
   protected codes = new Map<string, TimedEntry<string>>();
+  protected eventCursors = new Map<string, string>();
   private cleanupIntervalId: ReturnType<typeof setInterval> | null = null;
   constructor() {
     this.startCleanup();
@@ -273,6 +274,15 @@ export class MemoryTokenStore implements TokenStore {
     return Promise.resolve();
   }
 
+  getEventCursor(key: string): Promise<string | null> {
+    return Promise.resolve(this.eventCursors.get(key) ?? null);
+  }
+
+  saveEventCursor(key: string, eventId: string): Promise<void> {
+    this.eventCursors.set(key, eventId);
+    return Promise.resolve();
+  }
+
   getStats() {
     return {
       rsTokens: this.rsAccessMap.size,
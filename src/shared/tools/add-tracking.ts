@@ -0,0 +1,89 @@
+import { z } from "zod";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import { addOrderShipment, listCarriers } from "../services/allegro/orders.js";
+import { defineTool, invalidInput } from "./types.js";
+
+const OTHER_CARRIER_ID = "OTHER";
+
+export const addTrackingInputSchema = z.object({
+  orderId: z.string().min(1).describe("Checkout form id"),
+  carrierId: z
+    .string()
+    .min(1)
+    .describe("Carrier id from Allegro's carrier list, e.g. DPD or OTHER"),
+  waybill: z.string().min(1).max(64).describe("Tracking (waybill) number"),
+  carrierName: z
+    .string()
+    .min(1)
+    .max(30)
+    .optional()
+    .describe("Carrier name, required when carrierId is OTHER"),
+  lineItemIds: z
+    .array(z.string().min(1))
+    .min(1)
+    .optional()
+    .describe("Line items in this parcel (default: the whole order)"),
+});
+
+export const addTrackingTool = defineTool({
+  name: "add_tracking",
+  title: "Add Tracking Number",
+  description:
+    "Attach a carrier tracking number (waybill) to an Allegro order for parcels shipped outside Allegro's delivery services. The carrier id is checked against Allegro's carrier list",
+  inputSchema: addTrackingInputSchema,
+  outputSchema: {
+    orderId: z.string().describe("Checkout form id"),
+    shipmentId: z.string().describe("Id of the added order shipment"),
+    carrierId: z.string().describe("Carrier id"),
+    carrierName: z.string().nullable().describe("Carrier name"),
+    waybill: z.string().describe("Tracking number"),
+    createdAt: z.string().describe("When the shipment was added"),
+  },
+  annotations: {
+    title: "Add Tracking Number",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const carrierId = args.carrierId.toUpperCase();
+    const { carriers } = await listCarriers(allegro);
+    const carrier = carriers.find((c) => c.id === carrierId);
+    if (!carrier) {
+      return invalidInput(
+        `unknown carrier id "${args.carrierId}". Valid carrier ids: ${carriers.map((c) => c.id).join(", ")}`
+      );
+    }
+    if (carrierId === OTHER_CARRIER_ID && !args.carrierName) {
+      return invalidInput("carrierName is required when carrierId is OTHER");
+    }
+    const shipment = await addOrderShipment(allegro, args.orderId, {
+      carrierId,
+      waybill: args.waybill,
+      ...(args.carrierName && { carrierName: args.carrierName }),
+      ...(args.lineItemIds && {
+        lineItems: args.lineItemIds.map((id) => ({ id })),
+      }),
+    });
+    const carrierName =
+      shipment.carrierName ?? args.carrierName ?? carrier.name;
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Added ${carrierName} tracking number ${shipment.waybill} to order ${args.orderId}.`,
+        },
+      ],
+      structuredContent: {
+        orderId: args.orderId,
+        shipmentId: shipment.id,
+        carrierId: shipment.carrierId,
+        carrierName,
+        waybill: shipment.waybill,
+        createdAt: shipment.createdAt,
+      },
+    };
+  },
+});
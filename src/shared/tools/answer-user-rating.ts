@@ -0,0 +1,59 @@
+import { z } from "zod";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import {
+  answerUserRating,
+  getUserRating,
+} from "../services/allegro/ratings.js";
+import { defineTool } from "./types.js";
+
+export const answerUserRatingInputSchema = z.object({
+  ratingId: z.string().min(1).describe("Rating id"),
+  message: z
+    .string()
+    .min(1)
+    .max(500)
+    .describe("Public answer shown under the rating"),
+});
+
+export const answerUserRatingTool = defineTool({
+  name: "answer_user_rating",
+  title: "Answer User Rating",
+  description:
+    "Publish the seller's answer under a buyer's rating; replaces an earlier answer if there is one",
+  inputSchema: answerUserRatingInputSchema,
+  outputSchema: {
+    ratingId: z.string().describe("Rating id"),
+    buyer: z.string().describe("Buyer login"),
+    message: z.string().describe("Published answer"),
+    createdAt: z.string().describe("When the answer was published"),
+    replaced: z.string().nullable().describe("Previous answer, if replaced"),
+  },
+  annotations: {
+    title: "Answer User Rating",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const rating = await getUserRating(allegro, args.ratingId);
+    const answer = await answerUserRating(allegro, rating.id, args.message);
+    const replaced = rating.answer?.message ?? null;
+    return {
+      content: [
+        {
+          type: "text",
+          text: `${replaced ? "Answer replaced" : "Answer published"} under ${rating.recommended ? "recommending" : "negative"} rating ${rating.id} from ${rating.buyer.login}.`,
+        },
+      ],
+      structuredContent: {
+        ratingId: rating.id,
+        buyer: rating.buyer.login,
+        message: answer.message,
+        createdAt: answer.createdAt,
+        replaced,
+      },
+    };
+  },
+});
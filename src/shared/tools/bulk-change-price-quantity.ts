@@ -0,0 +1,378 @@
+import { z } from "zod";
+import type { AllegroClient } from "../services/allegro/client.js";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import { collectOfferIds } from "../services/allegro/offers.js";
+import type {
+  CommandStatus,
+  CommandTask,
+  CommandTasksResponse,
+  OfferPriceChangeCommand,
+  OfferQuantityChangeCommand,
+} from "../services/allegro/types/index.js";
+import { delay } from "../utils/cancellation.js";
+import { summarizeBatch } from "../utils/formatting.js";
+import { createProgressReporter } from "../utils/progress.js";
+import { offerFiltersSchema } from "./list-my-offers.js";
+import { defineTool, invalidInput, type ToolContext } from "./types.js";
+
+const COMMAND_PATHS = {
+  price: "/sale/offer-price-change-commands",
+  quantity: "/sale/offer-quantity-change-commands",
+} as const;
+
+type CommandKind = keyof typeof COMMAND_PATHS;
+
+const OFFERS_PER_COMMAND = 1000;
+const TASKS_PAGE_SIZE = 1000;
+const POLL_INTERVAL_MS = 2000;
+const MAX_DECREASE_PERCENTAGE = 99;
+
+export const bulkChangePriceQuantityInputSchema = z.object({
+  offerIds: z
+    .array(z.string().min(1))
+    .min(1)
+    .max(10_000)
+    .optional()
+    .describe("Offer ids to change"),
+  filters: offerFiltersSchema
+    .optional()
+    .describe("Select offers with list_my_offers filters instead of ids"),
+  maxOffers: z
+    .number()
+    .int()
+    .min(1)
+    .max(10_000)
+    .optional()
+    .describe("Upper bound of offers resolved from filters (default 1000)"),
+  priceChange: z
+    .object({
+      mode: z.enum(["set", "increase", "decrease"]),
+      amount: z.number().positive().optional(),
+      percentage: z.number().positive().max(100).optional(),
+      currency: z.string().length(3).optional(),
+    })
+    .optional()
+    .describe(
+      `Price change: set an absolute price, or increase/decrease by amount or percentage (decreases up to ${MAX_DECREASE_PERCENTAGE}%)`
+    ),
+  quantityChange: z
+    .object({
+      mode: z.enum(["set", "adjust"]),
+      value: z.number().int(),
+    })
+    .optional()
+    .describe("Stock change: set an absolute quantity or adjust by a delta"),
+  timeoutSeconds: z
+    .number()
+    .int()
+    .min(5)
+    .max(900)
+    .optional()
+    .describe("How long to wait for task reports (default 120)"),
+});
+
+type BulkChangeArgs = z.infer<typeof bulkChangePriceQuantityInputSchema>;
+
+interface CommandResult {
+  kind: CommandKind;
+  commandId: string;
+  total: number;
+  success: number;
+  failed: number;
+  completed: boolean;
+}
+
+function validateArgs(args: BulkChangeArgs) {
+  if (!(args.offerIds || args.filters)) {
+    return "Provide offerIds or filters";
+  }
+  if (!(args.priceChange || args.quantityChange)) {
+    return "Provide priceChange or quantityChange";
+  }
+  const price = args.priceChange;
+  if (price) {
+    const byAmount = price.amount !== undefined;
+    const byPercentage = price.percentage !== undefined;
+    if (byAmount === byPercentage) {
+      return "priceChange needs exactly one of amount or percentage";
+    }
+    if (price.mode === "set" && byPercentage) {
+      return "priceChange mode 'set' requires an amount";
+    }
+    if (
+      price.mode === "decrease" &&
+      (price.percentage ?? 0) > MAX_DECREASE_PERCENTAGE
+    ) {
+      return `priceChange can decrease prices by at most ${MAX_DECREASE_PERCENTAGE}%`;
+    }
+  }
+  if (args.quantityChange?.mode === "set" && args.quantityChange.value < 0) {
+    return "quantityChange mode 'set' requires a non-negative value";
+  }
+  return null;
+}
+
+function buildPriceModification(
+  change: NonNullable<BulkChangeArgs["priceChange"]>
+): OfferPriceChangeCommand["modification"] {
+  const currency = change.currency ?? "PLN";
+  if (change.mode === "set") {
+    return {
+      type: "FIXED_PRICE",
+      price: { amount: (change.amount ?? 0).toFixed(2), currency },
+    };
+  }
+  const direction = change.mode === "increase" ? "INCREASE" : "DECREASE";
+  if (change.percentage !== undefined) {
+    return {
+      type: `${direction}_PERCENTAGE`,
+      percentage: String(change.percentage),
+    };
+  }
+  return {
+    type: `${direction}_PRICE`,
+    price: { amount: (change.amount ?? 0).toFixed(2), currency },
+  };
+}
+
+function buildQuantityModification(
+  change: NonNullable<BulkChangeArgs["quantityChange"]>
+): OfferQuantityChangeCommand["modification"] {
+  return {
+    changeType: change.mode === "set" ? "FIXED" : "GAIN",
+    value: change.value,
+  };
+}
+
+function chunk<T>(items: T[], size: number) {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+async function submitCommand(
+  allegro: AllegroClient,
+  kind: CommandKind,
+  modification: unknown,
+  offerIds: string[]
+) {
+  const commandId = crypto.randomUUID();
+  await allegro.put(`${COMMAND_PATHS[kind]}/${commandId}`, {
+    body: {
+      modification,
+      offerCriteria: [
+        { type: "CONTAINS_OFFERS", offers: offerIds.map((id) => ({ id })) },
+      ],
+    },
+  });
+  return commandId;
+}
+
+async function fetchFailedTasks(
+  allegro: AllegroClient,
+  kind: CommandKind,
+  commandId: string
+) {
+  const failed: CommandTask[] = [];
+  for (let offset = 0; ; offset += TASKS_PAGE_SIZE) {
+    const page = await allegro.get<CommandTasksResponse>(
+      `${COMMAND_PATHS[kind]}/${commandId}/tasks`,
+      { query: { limit: TASKS_PAGE_SIZE, offset } }
+    );
+    failed.push(...page.tasks.filter((task) => task.status === "FAIL"));
+    if (page.tasks.length < TASKS_PAGE_SIZE) {
+      return failed;
+    }
+  }
+}
+
+async function pollCommands(
+  allegro: AllegroClient,
+  results: CommandResult[],
+  context: ToolContext,
+  deadline: number,
+  onProgress: (done: number) => Promise<void>
+) {
+  while (Date.now() < deadline) {
+    const pending = results.filter((r) => !r.completed);
+    if (pending.length === 0) {
+      return;
+    }
+    await delay(POLL_INTERVAL_MS, context.signal);
+    for (const result of pending) {
+      const status = await allegro.get<CommandStatus>(
+        `${COMMAND_PATHS[result.kind]}/${result.commandId}`
+      );
+      Object.assign(result, status.taskCount);
+      result.completed =
+        status.taskCount.total > 0 &&
+        status.taskCount.success + status.taskCount.failed >=
+          status.taskCount.total;
+    }
+    await onProgress(results.reduce((sum, r) => sum + r.success + r.failed, 0));
+  }
+}
+
+export const bulkChangePriceQuantityTool = defineTool({
+  name: "bulk_change_price_quantity",
+  title: "Bulk Change Price and Quantity",
+  description:
+    "Reprice or restock many offers at once through Allegro's offer modification commands, then poll the task reports",
+  inputSchema: bulkChangePriceQuantityInputSchema,
+  outputSchema: {
+    offerCount: z.number().describe("Number of offers targeted"),
+    commands: z
+      .array(
+        z.object({
+          kind: z.enum(["price", "quantity"]),
+          commandId: z.string(),
+          total: z.number(),
+          success: z.number(),
+          failed: z.number(),
+          completed: z.boolean(),
+        })
+      )
+      .describe("Submitted commands with their task counts"),
+    failures: z
+      .array(
+        z.object({
+          offerId: z.string(),
+          kind: z.enum(["price", "quantity"]),
+          message: z.string().nullable(),
+        })
+      )
+      .describe("Offers whose change failed"),
+  },
+  annotations: {
+    title: "Bulk Change Price and Quantity",
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const validationError = validateArgs(args);
+    if (validationError) {
+      return invalidInput(validationError);
+    }
+    const allegro = requireAllegroClient(context);
+    const progress = context.server
+      ? createProgressReporter(context.server, context.meta?.progressToken)
+      : null;
+    const offerIds = [
+      ...new Set(
+        args.offerIds ??
+          (await collectOfferIds(
+            allegro,
+            args.filters ?? {},
+            args.maxOffers ?? 1000
+          ))
+      ),
+    ];
+    if (offerIds.length === 0) {
+      return {
+        content: [{ type: "text", text: "No offers matched the filters." }],
+        structuredContent: { offerCount: 0, commands: [], failures: [] },
+      };
+    }
+    const modifications: [CommandKind, unknown][] = [];
+    if (args.priceChange) {
+      modifications.push(["price", buildPriceModification(args.priceChange)]);
+    }
+    if (args.quantityChange) {
+      modifications.push([
+        "quantity",
+        buildQuantityModification(args.quantityChange),
+      ]);
+    }
+    const totalTasks = offerIds.length * modifications.length;
+    const results: CommandResult[] = [];
+    for (const [kind, modification] of modifications) {
+      for (const ids of chunk(offerIds, OFFERS_PER_COMMAND)) {
+        context.signal?.throwIfAborted();
+        const commandId = await submitCommand(allegro, kind, modification, ids);
+        results.push({
+          kind,
+          commandId,
+          total: ids.length,
+          success: 0,
+          failed: 0,
+          completed: false,
+        });
+      }
+    }
+    await progress?.report(
+      0,
+      totalTasks,
+      `Submitted ${results.length} commands for ${offerIds.length} offers`
+    );
+    const deadline = Date.now() + (args.timeoutSeconds ?? 120) * 1000;
+    await pollCommands(allegro, results, context, deadline, async (done) => {
+      await progress?.report(done, totalTasks, `${done}/${totalTasks} tasks`);
+    });
+    const failures: Array<{
+      offerId: string;
+      kind: CommandKind;
+      message: string | null;
+    }> = [];
+    for (const result of results.filter((r) => r.failed > 0)) {
+      const tasks = await fetchFailedTasks(
+        allegro,
+        result.kind,
+        result.commandId
+      );
+      failures.push(
+        ...tasks.map((task) => ({
+          offerId: task.offer.id,
+          kind: result.kind,
+          message: task.message ?? null,
+        }))
+      );
+    }
+    const processed = results.reduce((sum, r) => sum + r.success + r.failed, 0);
+    const finished = results.every((r) => r.completed);
+    await progress?.report(
+      finished ? totalTasks : processed,
+      totalTasks,
+      finished
+        ? "Bulk change finished"
+        : `Timed out with ${processed}/${totalTasks} tasks processed`
+    );
+    const text = summarizeBatch(
+      results.map((command) => ({
+        command,
+        success: command.completed && command.failed === 0,
+      })),
+      {
+        operationName: `Bulk ${modifications.map(([kind]) => kind).join(" and ")} change`,
+        successFormatter: ({ command: c }) =>
+          `- ${c.kind} command ${c.commandId}: ${c.total} offers updated`,
+        errorFormatter: ({ command: c }) =>
+          c.completed
+            ? `- ${c.kind} command ${c.commandId}: ${c.failed} of ${c.total} failed`
+            : `- ${c.kind} command ${c.commandId}: ${c.success + c.failed} of ${c.total} processed before timeout`,
+      }
+    );
+    const failureLines = failures
+      .slice(0, 20)
+      .map((f) => `- ${f.offerId} (${f.kind}): ${f.message ?? "failed"}`);
+    return {
+      content: [
+        {
+          type: "text",
+          text:
+            failureLines.length > 0
+              ? `${text}\n\n### Failed offers\n\n${failureLines.join("\n")}`
+              : text,
+        },
+      ],
+      structuredContent: {
+        offerCount: offerIds.length,
+        commands: results,
+        failures,
+      },
+    };
+  },
+});
@@ -0,0 +1,193 @@
+import { z } from "zod";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import {
+  buildDescription,
+  describeSections,
+  markdownToHtml,
+  sanitizeDescriptionHtml,
+  textToHtml,
+} from "../services/allegro/description.js";
+import { getProduct } from "../services/allegro/products.js";
+import type {
+  CatalogProduct,
+  Description,
+} from "../services/allegro/types/index.js";
+import {
+  clientSupportsSampling,
+  requestTextCompletion,
+} from "../utils/sampling.js";
+import { defineTool, invalidInput, toolError } from "./types.js";
+
+const MAX_DESCRIPTION_LENGTH = 40_000;
+const DRAFT_MAX_TOKENS = 1500;
+const ALLEGRO_IMAGE_HOST = /(^|\.)allegroimg\./;
+
+const DRAFT_SYSTEM_PROMPT = [
+  "You write product descriptions for Allegro offers.",
+  "Write in the language of the product data.",
+  "Use only Markdown headings (# and ##), paragraphs, bullet or numbered lists and **bold**.",
+  "Do not use links, images, tables or code. Reply with the description only.",
+].join(" ");
+
+export const composeOfferDescriptionInputSchema = z.object({
+  text: z
+    .string()
+    .optional()
+    .describe(
+      "Description source; when drafting, extra notes for the copywriter"
+    ),
+  format: z
+    .enum(["markdown", "html", "text"])
+    .optional()
+    .describe("Format of text (default markdown)"),
+  images: z
+    .array(z.string().url())
+    .max(16)
+    .optional()
+    .describe("Image URLs placed next to the text sections, in order"),
+  draftFromProductId: z
+    .string()
+    .optional()
+    .describe(
+      "Catalog product id; drafts the copy from its parameters using the client's model"
+    ),
+});
+
+function formatProductFacts(product: CatalogProduct) {
+  return [
+    `Product: ${product.name}`,
+    ...(product.parameters ?? []).map(
+      (p) =>
+        `- ${p.name ?? p.id}: ${(p.valuesLabels ?? p.values ?? []).join(", ")}${p.unit ? ` ${p.unit}` : ""}`
+    ),
+  ].join("\n");
+}
+
+function buildDraftPrompt(product: CatalogProduct, notes?: string) {
+  return [
+    "Write an offer description for this product.",
+    "",
+    formatProductFacts(product),
+    ...(notes ? ["", `Seller notes: ${notes}`] : []),
+  ].join("\n");
+}
+
+function toHtml(source: string, format: "markdown" | "html" | "text") {
+  switch (format) {
+    case "html":
+      return source;
+    case "text":
+      return textToHtml(source);
+    default:
+      return markdownToHtml(source);
+  }
+}
+
+function isAllegroHosted(url: string) {
+  return ALLEGRO_IMAGE_HOST.test(new URL(url).hostname);
+}
+
+function collectWarnings(
+  description: Description,
+  images: string[],
+  removedTags: string[]
+) {
+  const warnings: string[] = [];
+  if (removedTags.length > 0) {
+    warnings.push(`Removed unsupported tags: ${removedTags.join(", ")}`);
+  }
+  for (const url of images.filter((u) => !isAllegroHosted(u))) {
+    warnings.push(
+      `Image ${url} is not hosted on Allegro; upload it with upload_offer_image first`
+    );
+  }
+  const length = description.sections
+    .flatMap((s) => s.items)
+    .reduce((sum, item) => sum + (item.content?.length ?? 0), 0);
+  if (length > MAX_DESCRIPTION_LENGTH) {
+    warnings.push(
+      `Text is ${length} characters; Allegro accepts up to ${MAX_DESCRIPTION_LENGTH}`
+    );
+  }
+  return warnings;
+}
+
+export const composeOfferDescriptionTool = defineTool({
+  name: "compose_offer_description",
+  title: "Compose Offer Description",
+  description:
+    "Turn Markdown, HTML or plain text plus image URLs into Allegro description sections limited to h1, h2, p, ul, ol, li and b, with a preview. Can draft the copy from a catalog product's parameters using the client's model",
+  inputSchema: composeOfferDescriptionInputSchema,
+  outputSchema: {
+    sections: z
+      .array(
+        z.object({
+          items: z.array(
+            z.object({
+              type: z.enum(["TEXT", "IMAGE"]),
+              content: z.string().optional(),
+              url: z.string().optional(),
+            })
+          ),
+        })
+      )
+      .describe("Description sections ready for update_offer"),
+    warnings: z.array(z.string()).describe("Problems found while composing"),
+    drafted: z.boolean().describe("Whether the copy was drafted by the model"),
+  },
+  annotations: {
+    title: "Compose Offer Description",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const images = args.images ?? [];
+    let source = args.text;
+    let format = args.format ?? "markdown";
+    if (args.draftFromProductId) {
+      const { server } = context;
+      if (!(server && clientSupportsSampling(server))) {
+        return toolError(
+          'Sampling not supported by client. Client must declare "sampling" capability; pass the description as text instead.'
+        );
+      }
+      const product = await getProduct(
+        requireAllegroClient(context),
+        args.draftFromProductId
+      );
+      source = await requestTextCompletion(
+        server,
+        buildDraftPrompt(product, args.text),
+        DRAFT_MAX_TOKENS,
+        { systemPrompt: DRAFT_SYSTEM_PROMPT, temperature: 0.7 }
+      );
+      format = "markdown";
+    }
+    if (!(source?.trim() || images.length > 0)) {
+      return invalidInput("provide text, images or draftFromProductId");
+    }
+    const { html, removedTags } = sanitizeDescriptionHtml(
+      toHtml(source ?? "", format)
+    );
+    const description = buildDescription(html, images);
+    const warnings = collectWarnings(description, images, removedTags);
+    const text = [
+      `## Description preview (${description.sections.length} sections)`,
+      "",
+      describeSections(description),
+      ...(warnings.length > 0
+        ? ["", "Warnings:", ...warnings.map((w) => `- ${w}`)]
+        : []),
+    ].join("\n");
+    return {
+      content: [{ type: "text", text }],
+      structuredContent: {
+        sections: description.sections,
+        warnings,
+        drafted: Boolean(args.draftFromProductId),
+      },
+    };
+  },
+});
@@ -0,0 +1,274 @@
+import { z } from "zod";
+import {
+  listImpliedWarranties,
+  listReturnPolicies,
+  listShippingRates,
+  listWarranties,
+} from "../services/allegro/after-sales.js";
+import { getCategoryParameters } from "../services/allegro/categories.js";
+import type { AllegroClient } from "../services/allegro/client.js";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import { getProductOffer } from "../services/allegro/offers.js";
+import {
+  formatParameterProblem,
+  validateParameters,
+} from "../services/allegro/parameters.js";
+import { getProduct } from "../services/allegro/products.js";
+import type {
+  CatalogProduct,
+  CategoryParameter,
+  ParameterValue,
+  ProductOffer,
+} from "../services/allegro/types/index.js";
+import { delay } from "../utils/cancellation.js";
+import { defineTool, invalidInput, type ToolContext } from "./types.js";
+import { parameterInputSchema } from "./update-offer.js";
+
+const POLL_INTERVAL_MS = 2000;
+
+export const createOfferFromProductInputSchema = z.object({
+  productId: z
+    .string()
+    .min(1)
+    .describe("Catalog product id from search_products"),
+  categoryId: z
+    .string()
+    .optional()
+    .describe("Category to list in (default: the product's category)"),
+  title: z
+    .string()
+    .min(1)
+    .max(75)
+    .optional()
+    .describe("Offer title (default: the product name)"),
+  price: z.number().positive().describe("Buy-now price"),
+  currency: z.string().length(3).optional().describe("Currency (default PLN)"),
+  stock: z.number().int().min(1).describe("Available stock"),
+  parameters: z
+    .array(parameterInputSchema)
+    .optional()
+    .describe("Offer-level parameters such as condition"),
+  shippingRatesId: z
+    .string()
+    .optional()
+    .describe("Shipping rates id (default: the seller's only shipping rates)"),
+  handlingTime: z
+    .string()
+    .regex(/^P/)
+    .optional()
+    .describe("ISO 8601 handling time (default PT24H)"),
+  returnPolicyId: z
+    .string()
+    .optional()
+    .describe("Return policy id (default: the seller's only policy)"),
+  impliedWarrantyId: z
+    .string()
+    .optional()
+    .describe("Implied warranty id (default: the seller's only one)"),
+  warrantyId: z
+    .string()
+    .optional()
+    .describe("Warranty id (default: the seller's only one)"),
+  externalId: z.string().optional().describe("Seller's external offer id"),
+  publish: z
+    .boolean()
+    .optional()
+    .describe("Publish immediately instead of creating a draft"),
+  waitSeconds: z
+    .number()
+    .int()
+    .min(0)
+    .max(120)
+    .optional()
+    .describe("How long to wait for publication (default 20)"),
+});
+
+type CreateOfferFromProductArgs = z.infer<
+  typeof createOfferFromProductInputSchema
+>;
+
+interface NamedPolicy {
+  id: string;
+  name: string;
+}
+
+async function resolveDefault(
+  explicitId: string | undefined,
+  load: () => Promise<NamedPolicy[]>,
+  argName: string
+) {
+  if (explicitId) {
+    return { id: explicitId };
+  }
+  const options = await load();
+  if (options.length === 0) {
+    return;
+  }
+  if (options.length > 1) {
+    throw new Error(
+      `Several options are configured; pass ${argName} as one of: ${options.map((o) => `${o.id} (${o.name})`).join(", ")}`
+    );
+  }
+  return { id: options[0].id };
+}
+
+export function validateOfferParameters(
+  definitions: CategoryParameter[],
+  product: CatalogProduct,
+  parameters: ParameterValue[]
+) {
+  const fromProduct = new Set((product.parameters ?? []).map((p) => p.id));
+  return validateParameters(
+    definitions,
+    parameters,
+    definitions.filter((d) => d.required && !fromProduct.has(d.id))
+  ).map(formatParameterProblem);
+}
+
+async function buildOfferBody(
+  allegro: AllegroClient,
+  args: CreateOfferFromProductArgs,
+  product: CatalogProduct,
+  categoryId: string
+) {
+  const [shippingRates, returnPolicy, impliedWarranty, warranty] =
+    await Promise.all([
+      resolveDefault(
+        args.shippingRatesId,
+        () => listShippingRates(allegro),
+        "shippingRatesId"
+      ),
+      resolveDefault(
+        args.returnPolicyId,
+        () => listReturnPolicies(allegro),
+        "returnPolicyId"
+      ),
+      resolveDefault(
+        args.impliedWarrantyId,
+        () => listImpliedWarranties(allegro),
+        "impliedWarrantyId"
+      ),
+      resolveDefault(
+        args.warrantyId,
+        () => listWarranties(allegro),
+        "warrantyId"
+      ),
+    ]);
+  return {
+    name: args.title ?? product.name.slice(0, 75),
+    category: { id: categoryId },
+    productSet: [{ product: { id: product.id } }],
+    parameters: args.parameters ?? [],
+    sellingMode: {
+      format: "BUY_NOW",
+      price: {
+        amount: args.price.toFixed(2),
+        currency: args.currency ?? "PLN",
+      },
+    },
+    stock: { available: args.stock, unit: "UNIT" },
+    delivery: {
+      handlingTime: args.handlingTime ?? "PT24H",
+      ...(shippingRates && { shippingRates }),
+    },
+    afterSalesServices: {
+      ...(returnPolicy && { returnPolicy }),
+      ...(impliedWarranty && { impliedWarranty }),
+      ...(warranty && { warranty }),
+    },
+    publication: { status: args.publish ? "ACTIVE" : "INACTIVE" },
+    ...(args.externalId && { external: { id: args.externalId } }),
+  };
+}
+
+async function waitForPublication(
+  context: ToolContext,
+  offer: ProductOffer,
+  waitSeconds: number
+) {
+  const allegro = requireAllegroClient(context);
+  const deadline = Date.now() + waitSeconds * 1000;
+  let current = offer;
+  while (
+    current.publication?.status === "ACTIVATING" &&
+    Date.now() < deadline
+  ) {
+    await delay(POLL_INTERVAL_MS, context.signal);
+    current = await getProductOffer(allegro, offer.id);
+  }
+  return current;
+}
+
+export const createOfferFromProductTool = defineTool({
+  name: "create_offer_from_product",
+  title: "Create Offer From Product",
+  description:
+    "List a catalog product for sale with your price, stock, delivery and after-sales defaults. Parameters are validated against the category schema before submitting, and the publication status is reported",
+  inputSchema: createOfferFromProductInputSchema,
+  outputSchema: {
+    offerId: z.string().describe("Created offer id"),
+    productId: z.string().describe("Catalog product id"),
+    status: z
+      .enum(["INACTIVE", "ACTIVATING", "ACTIVE", "ENDED"])
+      .describe("Publication status"),
+    validationErrors: z
+      .array(z.string())
+      .describe("Validation errors reported by Allegro"),
+  },
+  annotations: {
+    title: "Create Offer From Product",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const product = await getProduct(allegro, args.productId);
+    const categoryId = args.categoryId ?? product.category.id;
+    const definitions = await getCategoryParameters(allegro, categoryId);
+    const problems = validateOfferParameters(
+      definitions,
+      product,
+      args.parameters ?? []
+    );
+    if (problems.length > 0) {
+      return invalidInput(
+        [
+          `offer parameters do not match category ${categoryId}:`,
+          "",
+          ...problems.map((p) => `- ${p}`),
+        ].join("\n")
+      );
+    }
+    const body = await buildOfferBody(allegro, args, product, categoryId);
+    const created = await allegro.post<ProductOffer>("/sale/product-offers", {
+      body,
+    });
+    const offer = await waitForPublication(
+      context,
+      created,
+      args.waitSeconds ?? 20
+    );
+    const status = offer.publication?.status ?? "INACTIVE";
+    const validationErrors = (offer.validation?.errors ?? []).map(
+      (e) =>
+        `${e.code}: ${e.userMessage || e.message}${e.path ? ` (${e.path})` : ""}`
+    );
+    const text = [
+      `Created offer ${offer.id} for product ${product.name} — ${status}.`,
+      ...(validationErrors.length > 0
+        ? ["", "Validation errors:", ...validationErrors.map((e) => `- ${e}`)]
+        : []),
+    ].join("\n");
+    return {
+      content: [{ type: "text", text }],
+      structuredContent: {
+        offerId: offer.id,
+        productId: product.id,
+        status,
+        validationErrors,
+      },
+    };
+  },
+});
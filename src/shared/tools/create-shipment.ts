@@ -0,0 +1,234 @@
+import { z } from "zod";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import { getOrder } from "../services/allegro/orders.js";
+import {
+  createShipment,
+  getShipmentCommand,
+} from "../services/allegro/shipments.js";
+import type {
+  CheckoutForm,
+  ShipmentAddress,
+  ShipmentCreateCommand,
+} from "../services/allegro/types/index.js";
+import { delay } from "../utils/cancellation.js";
+import { defineTool, invalidInput, type ToolContext } from "./types.js";
+
+const POLL_INTERVAL_MS = 2000;
+
+const addressInputSchema = z.object({
+  name: z.string().min(1).describe("Contact name"),
+  company: z.string().optional().describe("Company name"),
+  street: z.string().min(1).describe("Street with building number"),
+  postalCode: z.string().min(1).describe("Postal code"),
+  city: z.string().min(1).describe("City"),
+  countryCode: z
+    .string()
+    .length(2)
+    .optional()
+    .describe("ISO country code (default PL)"),
+  email: z.string().email().describe("Contact email"),
+  phone: z.string().min(1).describe("Contact phone"),
+});
+
+const packageInputSchema = z.object({
+  type: z
+    .enum(["PACKAGE", "DOX", "PALLET", "OTHER"])
+    .optional()
+    .describe("Package type (default PACKAGE)"),
+  length: z.number().positive().describe("Length in centimeters"),
+  width: z.number().positive().describe("Width in centimeters"),
+  height: z.number().positive().describe("Height in centimeters"),
+  weight: z.number().positive().describe("Weight in kilograms"),
+  textOnLabel: z.string().max(100).optional().describe("Text on the label"),
+});
+
+export const createShipmentInputSchema = z.object({
+  orderId: z.string().min(1).describe("Checkout form id to ship"),
+  deliveryMethodId: z
+    .string()
+    .optional()
+    .describe("Delivery method id (default: the buyer's choice)"),
+  credentialsId: z
+    .string()
+    .optional()
+    .describe("Carrier credentials id for own-contract services"),
+  sender: addressInputSchema.describe("Sender address"),
+  packages: z.array(packageInputSchema).min(1).describe("Parcels to send"),
+  handover: z
+    .enum(["DROP_OFF", "PICKUP"])
+    .optional()
+    .describe("Drop the parcel off yourself or have the courier pick it up"),
+  pickupAddress: addressInputSchema
+    .optional()
+    .describe("Courier pickup address (default: sender address)"),
+  labelFormat: z
+    .enum(["PDF", "ZPL", "EPL"])
+    .optional()
+    .describe("Label format (default PDF)"),
+  waitSeconds: z
+    .number()
+    .int()
+    .min(0)
+    .max(120)
+    .optional()
+    .describe("How long to wait for the creation command (default 30)"),
+});
+
+type AddressInput = z.infer<typeof addressInputSchema>;
+
+export const shipmentCommandSchema = {
+  commandId: z.string().describe("Shipment creation command id"),
+  status: z
+    .enum(["IN_PROGRESS", "SUCCESS", "ERROR"])
+    .describe("Command status"),
+  shipmentId: z
+    .string()
+    .nullable()
+    .describe("Created shipment id once the command succeeded"),
+  errors: z.array(z.string()).describe("Errors reported by Allegro"),
+};
+
+export function toShipmentCommandResult(command: ShipmentCreateCommand) {
+  return {
+    commandId: command.commandId,
+    status: command.status,
+    shipmentId: command.shipmentId ?? null,
+    errors: (command.errors ?? []).map(
+      (e) =>
+        `${e.code}: ${e.userMessage || e.message}${e.path ? ` (${e.path})` : ""}`
+    ),
+  };
+}
+
+export function formatShipmentCommand(
+  result: ReturnType<typeof toShipmentCommandResult>
+) {
+  switch (result.status) {
+    case "SUCCESS":
+      return `Shipment ${result.shipmentId} created (command ${result.commandId}). Fetch the label with get_shipment_label.`;
+    case "ERROR":
+      return [
+        `Shipment creation failed (command ${result.commandId}):`,
+        "",
+        ...result.errors.map((e) => `- ${e}`),
+      ].join("\n");
+    default:
+      return `Shipment creation is still in progress (command ${result.commandId}). Check again with get_shipment_command.`;
+  }
+}
+
+function toShipmentAddress(address: AddressInput): ShipmentAddress {
+  return {
+    ...address,
+    company: address.company ?? null,
+    countryCode: address.countryCode ?? "PL",
+  };
+}
+
+function receiverFromOrder(order: CheckoutForm) {
+  const address = order.delivery?.address;
+  if (!address) {
+    return { problem: `order ${order.id} has no delivery address` };
+  }
+  const fields = {
+    street: address.street,
+    postalCode: address.zipCode ?? address.postCode,
+    city: address.city,
+    phone: address.phoneNumber ?? order.buyer.phoneNumber,
+  };
+  const missing = Object.entries(fields)
+    .filter(([, value]) => !value)
+    .map(([field]) => field);
+  if (missing.length > 0) {
+    return {
+      problem: `order ${order.id} delivery address is missing ${missing.join(", ")}`,
+    };
+  }
+  const receiver: ShipmentAddress = {
+    name:
+      [address.firstName, address.lastName].filter(Boolean).join(" ") ||
+      order.buyer.login,
+    company: address.companyName ?? null,
+    street: fields.street ?? "",
+    postalCode: fields.postalCode ?? "",
+    city: fields.city ?? "",
+    countryCode: address.countryCode ?? "PL",
+    email: order.buyer.email,
+    phone: fields.phone ?? "",
+    point: order.delivery?.pickupPoint?.id ?? null,
+  };
+  return { receiver };
+}
+
+export async function waitForShipmentCommand(
+  context: ToolContext,
+  commandId: string,
+  waitSeconds: number
+) {
+  const allegro = requireAllegroClient(context);
+  const deadline = Date.now() + waitSeconds * 1000;
+  let command = await getShipmentCommand(allegro, commandId);
+  while (command.status === "IN_PROGRESS" && Date.now() < deadline) {
+    await delay(POLL_INTERVAL_MS, context.signal);
+    command = await getShipmentCommand(allegro, commandId);
+  }
+  return command;
+}
+
+export const createShipmentTool = defineTool({
+  name: "create_shipment",
+  title: "Create Shipment",
+  description:
+    "Create a Wysyłam z Allegro shipment for an order with package dimensions and weight, choosing drop-off or courier pickup, then wait for the creation command",
+  inputSchema: createShipmentInputSchema,
+  outputSchema: shipmentCommandSchema,
+  annotations: {
+    title: "Create Shipment",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const order = await getOrder(allegro, args.orderId);
+    const deliveryMethodId = args.deliveryMethodId ?? order.delivery?.method.id;
+    if (!deliveryMethodId) {
+      throw new Error(`Order ${order.id} has no delivery method`);
+    }
+    const { receiver, problem } = receiverFromOrder(order);
+    if (!receiver) {
+      return invalidInput(problem);
+    }
+    const sender = toShipmentAddress(args.sender);
+    const pickup =
+      args.handover === "PICKUP"
+        ? toShipmentAddress(args.pickupAddress ?? args.sender)
+        : undefined;
+    const commandId = await createShipment(allegro, {
+      deliveryMethodId,
+      credentialsId: args.credentialsId ?? null,
+      sender,
+      receiver,
+      ...(pickup && { pickup }),
+      referenceNumber: order.id,
+      packages: args.packages.map((p) => ({
+        type: p.type ?? "PACKAGE",
+        length: { value: p.length, unit: "CENTIMETER" },
+        width: { value: p.width, unit: "CENTIMETER" },
+        height: { value: p.height, unit: "CENTIMETER" },
+        weight: { value: p.weight, unit: "KILOGRAMS" },
+        ...(p.textOnLabel && { textOnLabel: p.textOnLabel }),
+      })),
+      labelFormat: args.labelFormat ?? "PDF",
+    });
+    const result = toShipmentCommandResult(
+      await waitForShipmentCommand(context, commandId, args.waitSeconds ?? 30)
+    );
+    return {
+      content: [{ type: "text", text: formatShipmentCommand(result) }],
+      structuredContent: result,
+      ...(result.status === "ERROR" && { isError: true }),
+    };
+  },
+});
@@ -0,0 +1,252 @@
+import { z } from "zod";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import { isAllegroApiError } from "../services/allegro/errors.js";
+import {
+  getMessageThread,
+  listThreadMessages,
+  MAX_MESSAGE_LENGTH,
+  sendThreadMessage,
+} from "../services/allegro/messaging.js";
+import { getProductOffer } from "../services/allegro/offers.js";
+import { getOrder } from "../services/allegro/orders.js";
+import type {
+  CheckoutForm,
+  Message,
+  ProductOffer,
+} from "../services/allegro/types/index.js";
+import {
+  clientSupportsFormElicitation,
+  elicitForm,
+} from "../utils/elicitation.js";
+import {
+  clientSupportsSampling,
+  requestTextCompletion,
+} from "../utils/sampling.js";
+import { defineTool, type ToolContext, toolError } from "./types.js";
+
+const DRAFT_MAX_TOKENS = 800;
+
+const REPLY_SYSTEM_PROMPT = [
+  "You answer buyer messages on behalf of an Allegro seller.",
+  "Be polite, warm and concise, like an experienced shop owner; no marketing language.",
+  "Reply in the language of the buyer's most recent message.",
+  "Use only facts from the provided order, offer and conversation.",
+  "Do not promise refunds, discounts or delivery dates unless the seller's instructions say so.",
+  "Reply with the message text only, without a subject line or placeholders.",
+].join(" ");
+
+export const draftBuyerReplyInputSchema = z.object({
+  threadId: z.string().min(1).describe("Message thread id"),
+  instructions: z
+    .string()
+    .max(1000)
+    .optional()
+    .describe("What the reply should say or offer, in the seller's words"),
+  orderId: z
+    .string()
+    .optional()
+    .describe("Related order id (default: taken from the conversation)"),
+  offerId: z
+    .string()
+    .optional()
+    .describe("Related offer id (default: taken from the conversation)"),
+  messageCount: z
+    .number()
+    .int()
+    .min(1)
+    .max(50)
+    .optional()
+    .describe("Recent messages to include as context (default 10)"),
+});
+
+function latestReference(messages: Message[], key: "offer" | "order") {
+  return messages.find((m) => m.relatesTo?.[key]?.id)?.relatesTo?.[key]?.id;
+}
+
+function ignoreNotFound(error: unknown) {
+  if (isAllegroApiError(error) && error.status === 404) {
+    return null;
+  }
+  throw error;
+}
+
+function formatOrderFacts(order: CheckoutForm) {
+  const delivery = order.delivery;
+  return [
+    `Order ${order.id}: status ${order.status}, fulfillment ${order.fulfillment?.status ?? "unknown"}, paid ${order.payment?.finishedAt ? "yes" : "no"}, total ${order.summary.totalToPay.amount} ${order.summary.totalToPay.currency}`,
+    ...order.lineItems.map(
+      (item) =>
+        `- ${item.quantity} × ${item.offer.name} (${item.price.amount} ${item.price.currency})`
+    ),
+    ...(delivery
+      ? [
+          `Delivery: ${delivery.method.name ?? delivery.method.id}${delivery.pickupPoint?.name ? `, pickup point ${delivery.pickupPoint.name}` : ""}${delivery.time?.dispatch?.to ? `, dispatch by ${delivery.time.dispatch.to}` : ""}`,
+        ]
+      : []),
+    ...(order.messageToSeller
+      ? [`Buyer's note at checkout: ${order.messageToSeller}`]
+      : []),
+  ].join("\n");
+}
+
+function formatOfferFacts(offer: ProductOffer) {
+  const price = offer.sellingMode?.price;
+  return [
+    `Offer ${offer.id}: ${offer.name}`,
+    ...(price ? [`Price: ${price.amount} ${price.currency}`] : []),
+    ...(offer.stock ? [`Stock: ${offer.stock.available}`] : []),
+    ...(offer.delivery?.handlingTime
+      ? [`Handling time: ${offer.delivery.handlingTime}`]
+      : []),
+    ...(offer.publication ? [`Status: ${offer.publication.status}`] : []),
+  ].join("\n");
+}
+
+function buildReplyPrompt(
+  messages: Message[],
+  facts: string[],
+  instructions?: string
+) {
+  const transcript = [...messages]
+    .reverse()
+    .map(
+      (m) =>
+        `[${m.createdAt}] ${m.author.isInterlocutor ? "Buyer" : "Seller"}: ${m.text}`
+    );
+  return [
+    "Draft the seller's reply to this conversation.",
+    "",
+    "Conversation (oldest first):",
+    ...transcript,
+    ...facts.flatMap((f) => ["", f]),
+    ...(instructions ? ["", `Seller's instructions: ${instructions}`] : []),
+  ].join("\n");
+}
+
+async function approveReply(
+  context: ToolContext,
+  buyer: string,
+  draft: string
+) {
+  const { server } = context;
+  if (!(server && clientSupportsFormElicitation(server))) {
+    return { status: "DRAFT_ONLY" as const };
+  }
+  const result = await elicitForm(server, {
+    message: `Proposed reply to ${buyer}:\n\n${draft}\n\nEdit the text if needed and accept to send it.`,
+    requestedSchema: {
+      type: "object",
+      properties: {
+        reply: {
+          type: "string",
+          title: "Reply",
+          default: draft,
+          minLength: 1,
+          maxLength: MAX_MESSAGE_LENGTH,
+        },
+      },
+      required: ["reply"],
+    },
+  });
+  if (result.action !== "accept") {
+    return {
+      status: result.action === "decline" ? "DECLINED" : "CANCELLED",
+    } as const;
+  }
+  const text = String(result.content?.reply ?? "").trim();
+  return text
+    ? { status: "SENT" as const, text }
+    : { status: "DECLINED" as const };
+}
+
+export const draftBuyerReplyTool = defineTool({
+  name: "draft_buyer_reply",
+  title: "Draft Buyer Reply",
+  description:
+    "Draft a reply to a buyer's message with the client's LLM, using the conversation and the related order and offer. The draft is shown for approval (and editing) and is sent only when the user accepts it",
+  inputSchema: draftBuyerReplyInputSchema,
+  outputSchema: {
+    threadId: z.string().describe("Message thread id"),
+    status: z
+      .enum(["SENT", "DECLINED", "CANCELLED", "DRAFT_ONLY"])
+      .describe("Whether the reply was sent"),
+    draft: z.string().describe("Reply drafted by the model"),
+    sentText: z.string().nullable().describe("Text that was sent"),
+    messageId: z.string().nullable().describe("Id of the sent message"),
+    orderId: z.string().nullable().describe("Order used as context"),
+    offerId: z.string().nullable().describe("Offer used as context"),
+  },
+  annotations: {
+    title: "Draft Buyer Reply",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const { server } = context;
+    if (!(server && clientSupportsSampling(server))) {
+      return toolError(
+        'Sampling not supported by client. Client must declare "sampling" capability; use reply_to_message_thread with your own text instead.'
+      );
+    }
+    const allegro = requireAllegroClient(context);
+    const [thread, page] = await Promise.all([
+      getMessageThread(allegro, args.threadId),
+      listThreadMessages(allegro, args.threadId, {
+        limit: args.messageCount ?? 10,
+        offset: 0,
+      }),
+    ]);
+    const orderId = args.orderId ?? latestReference(page.messages, "order");
+    const offerId = args.offerId ?? latestReference(page.messages, "offer");
+    const [order, offer] = await Promise.all([
+      orderId ? getOrder(allegro, orderId).catch(ignoreNotFound) : null,
+      offerId ? getProductOffer(allegro, offerId).catch(ignoreNotFound) : null,
+    ]);
+    const facts = [
+      ...(order ? [formatOrderFacts(order)] : []),
+      ...(offer ? [formatOfferFacts(offer)] : []),
+    ];
+    const completion = await requestTextCompletion(
+      server,
+      buildReplyPrompt(page.messages, facts, args.instructions),
+      DRAFT_MAX_TOKENS,
+      { systemPrompt: REPLY_SYSTEM_PROMPT, temperature: 0.4 }
+    );
+    const draft = completion.trim().slice(0, MAX_MESSAGE_LENGTH);
+    const approval = await approveReply(
+      context,
+      thread.interlocutor.login,
+      draft
+    );
+    const message =
+      approval.status === "SENT"
+        ? await sendThreadMessage(allegro, thread.id, { text: approval.text })
+        : null;
+    const outcome = {
+      SENT: `Reply ${message?.id} sent to ${thread.interlocutor.login}.`,
+      DECLINED: "Reply not sent.",
+      CANCELLED: "Reply cancelled.",
+      DRAFT_ONLY:
+        "The client cannot show approval forms, so the draft was not sent; use reply_to_message_thread to send it.",
+    }[approval.status];
+    return {
+      content: [
+        {
+          type: "text",
+          text: `## Draft reply to ${thread.interlocutor.login}\n\n${draft}\n\n${outcome}`,
+        },
+      ],
+      structuredContent: {
+        threadId: thread.id,
+        status: approval.status,
+        draft,
+        sentText: approval.status === "SENT" ? approval.text : null,
+        messageId: message?.id ?? null,
+        orderId: order?.id ?? null,
+        offerId: offer?.id ?? null,
+      },
+    };
+  },
+});
@@ -0,0 +1,259 @@
+import { z } from "zod";
+import type { AllegroClient } from "../services/allegro/client.js";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import {
+  getCarrierTracking,
+  getCustomerReturn,
+  getOrder,
+} from "../services/allegro/orders.js";
+import {
+  lineItemRefundAmount,
+  listPaymentRefunds,
+  refundableLineItems,
+} from "../services/allegro/payments.js";
+import type { CustomerReturn } from "../services/allegro/types/index.js";
+import { moneySchema, roundMoney, sumMoney } from "../utils/money.js";
+import {
+  formatReturnRow,
+  parcelWaybill,
+  returnRowSchema,
+  toReturnRow,
+} from "./list-customer-returns.js";
+import { defineTool } from "./types.js";
+
+export const getCustomerReturnInputSchema = z.object({
+  returnId: z.string().min(1).describe("Customer return id"),
+  includeTracking: z
+    .boolean()
+    .optional()
+    .describe("Look up the return parcel tracking (default true)"),
+  includeRefund: z
+    .boolean()
+    .optional()
+    .describe(
+      "Compute refundable amounts from the original order (default true)"
+    ),
+});
+
+const parcelSchema = z.object({
+  carrierId: z.string().nullable(),
+  waybill: z.string().nullable(),
+  createdAt: z.string(),
+  latestStatus: z.string().nullable(),
+  latestStatusAt: z.string().nullable(),
+});
+
+const refundPlanSchema = z.object({
+  orderId: z.string(),
+  paymentId: z.string().nullable(),
+  currency: z.string(),
+  lineItems: z.array(
+    z.object({
+      lineItemId: z.string(),
+      offerId: z.string(),
+      quantity: z.number(),
+      amount: z.number(),
+    })
+  ),
+  total: z.number(),
+  notRefundable: z.array(z.string()),
+});
+
+type RefundPlan = z.infer<typeof refundPlanSchema>;
+
+async function trackParcels(
+  allegro: AllegroClient,
+  customerReturn: CustomerReturn
+) {
+  const parcels = (customerReturn.parcels ?? []).map((parcel) => ({
+    ...parcelWaybill(parcel),
+    createdAt: parcel.createdAt,
+  }));
+  const carriers = [
+    ...new Set(parcels.flatMap((p) => (p.carrierId ? [p.carrierId] : []))),
+  ];
+  const tracked = await Promise.all(
+    carriers.map((carrierId) =>
+      getCarrierTracking(
+        allegro,
+        carrierId,
+        parcels.flatMap((p) =>
+          p.carrierId === carrierId && p.waybill ? [p.waybill] : []
+        )
+      ).catch(() => null)
+    )
+  );
+  const latest = new Map(
+    tracked.flatMap((response) =>
+      (response?.waybills ?? []).map((entry) => [
+        `${response?.carrierId}|${entry.waybill}`,
+        [...(entry.trackingDetails?.statuses ?? [])]
+          .sort((a, b) => a.occurredAt.localeCompare(b.occurredAt))
+          .at(-1),
+      ])
+    )
+  );
+  return parcels.map((parcel) => {
+    const status = latest.get(`${parcel.carrierId}|${parcel.waybill}`);
+    return {
+      ...parcel,
+      latestStatus: status?.code ?? null,
+      latestStatusAt: status?.occurredAt ?? null,
+    };
+  });
+}
+
+async function planReturnRefund(
+  allegro: AllegroClient,
+  customerReturn: CustomerReturn
+): Promise<RefundPlan> {
+  const order = await getOrder(allegro, customerReturn.orderId);
+  const paymentId = order.payment?.id ?? null;
+  const refunds = paymentId ? await listPaymentRefunds(allegro, paymentId) : [];
+  const remaining = refundableLineItems(order, refunds);
+  const lineItems: RefundPlan["lineItems"] = [];
+  const notRefundable: string[] = [];
+  for (const item of customerReturn.items) {
+    let wanted = item.quantity;
+    for (const lineItem of order.lineItems) {
+      const available = remaining.get(lineItem.id);
+      if (
+        lineItem.offer.id !== item.offerId ||
+        !available ||
+        available.quantity <= 0 ||
+        available.value <= 0
+      ) {
+        continue;
+      }
+      const quantity = Math.min(wanted, available.quantity);
+      const amount = lineItemRefundAmount(lineItem, quantity, available);
+      remaining.set(lineItem.id, {
+        quantity: available.quantity - quantity,
+        value: roundMoney(available.value - amount),
+      });
+      wanted -= quantity;
+      lineItems.push({
+        lineItemId: lineItem.id,
+        offerId: item.offerId,
+        quantity,
+        amount,
+      });
+      if (wanted === 0) {
+        break;
+      }
+    }
+    if (wanted > 0) {
+      notRefundable.push(
+        `${item.name}: ${wanted} unit(s) already refunded or not in the order`
+      );
+    }
+  }
+  return {
+    orderId: order.id,
+    paymentId,
+    currency: order.summary.totalToPay.currency,
+    lineItems,
+    total: sumMoney(lineItems.map((l) => l.amount)),
+    notRefundable,
+  };
+}
+
+function formatRefundPlan(plan: RefundPlan) {
+  if (plan.lineItems.length === 0) {
+    return ["### Refund", "", "Nothing left to refund for this return."];
+  }
+  return [
+    "### Refund",
+    "",
+    `Refundable: ${plan.total.toFixed(2)} ${plan.currency} for ${plan.lineItems.length} line item(s). Pass orderId ${plan.orderId} and these lineItems to initiate_refund to pay it out.`,
+    ...plan.notRefundable.map((n) => `- ${n}`),
+  ];
+}
+
+export const getCustomerReturnTool = defineTool({
+  name: "get_customer_return",
+  title: "Get Customer Return",
+  description:
+    "Show a customer return with the returned items and reasons, the return parcel tracking and the amounts still refundable from the original order (ready for initiate_refund)",
+  inputSchema: getCustomerReturnInputSchema,
+  outputSchema: {
+    customerReturn: returnRowSchema.describe("Return summary"),
+    items: z
+      .array(
+        z.object({
+          offerId: z.string(),
+          name: z.string(),
+          quantity: z.number(),
+          price: moneySchema,
+          reason: z.string().nullable(),
+          comment: z.string().nullable(),
+        })
+      )
+      .describe("Returned items"),
+    parcels: z.array(parcelSchema).describe("Return parcels with tracking"),
+    refund: refundPlanSchema
+      .nullable()
+      .describe("Refundable line items from the original order"),
+  },
+  annotations: {
+    title: "Get Customer Return",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const customerReturn = await getCustomerReturn(allegro, args.returnId);
+    const [parcels, refund] = await Promise.all([
+      args.includeTracking === false
+        ? (customerReturn.parcels ?? []).map((parcel) => ({
+            ...parcelWaybill(parcel),
+            createdAt: parcel.createdAt,
+            latestStatus: null,
+            latestStatusAt: null,
+          }))
+        : trackParcels(allegro, customerReturn),
+      args.includeRefund === false
+        ? null
+        : planReturnRefund(allegro, customerReturn),
+    ]);
+    const row = toReturnRow(customerReturn);
+    const items = customerReturn.items.map((item) => ({
+      offerId: item.offerId,
+      name: item.name,
+      quantity: item.quantity,
+      price: item.price,
+      reason: item.reason?.type ?? null,
+      comment: item.reason?.userComment ?? null,
+    }));
+    const text = [
+      `## Return ${row.referenceNumber}`,
+      "",
+      formatReturnRow(row),
+      "",
+      "### Items",
+      "",
+      ...items.map(
+        (i) =>
+          `- ${i.quantity} × ${i.name} (${i.price.amount} ${i.price.currency})${i.reason ? ` — ${i.reason}` : ""}${i.comment ? `: "${i.comment}"` : ""}`
+      ),
+      ...(parcels.length > 0
+        ? [
+            "",
+            "### Parcels",
+            "",
+            ...parcels.map(
+              (p) =>
+                `- ${p.carrierId ?? "?"} ${p.waybill ?? "(no waybill)"} — ${p.latestStatus ? `${p.latestStatus} at ${p.latestStatusAt}` : "no tracking data"}`
+            ),
+          ]
+        : []),
+      ...(refund ? ["", ...formatRefundPlan(refund)] : []),
+    ].join("\n");
+    return {
+      content: [{ type: "text", text }],
+      structuredContent: { customerReturn: row, items, parcels, refund },
+    };
+  },
+});
@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import { getIssue, getIssueChat } from "../services/allegro/issues.js";
+import { formatIssueRow, issueRowSchema, toIssueRow } from "./list-issues.js";
+import { defineTool } from "./types.js";
+
+export const getIssueChatInputSchema = z.object({
+  issueId: z.string().min(1).describe("Dispute or claim id"),
+});
+
+const chatMessageSchema = z.object({
+  id: z.string(),
+  createdAt: z.string(),
+  author: z.string(),
+  role: z.enum(["BUYER", "SELLER", "ADMIN"]),
+  type: z.string().nullable(),
+  text: z.string(),
+  attachments: z.array(z.object({ fileName: z.string(), url: z.string() })),
+});
+
+export const getIssueChatTool = defineTool({
+  name: "get_issue_chat",
+  title: "Get Issue Chat",
+  description:
+    "Read a dispute or claim with its deadline, the buyer's description and expectations, and the full chat history, oldest message first",
+  inputSchema: getIssueChatInputSchema,
+  outputSchema: {
+    issue: issueRowSchema.describe("Issue summary"),
+    description: z.string().nullable().describe("Buyer's description"),
+    messages: z.array(chatMessageSchema).describe("Chat, oldest first"),
+  },
+  annotations: {
+    title: "Get Issue Chat",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const [issue, chat] = await Promise.all([
+      getIssue(allegro, args.issueId),
+      getIssueChat(allegro, args.issueId),
+    ]);
+    const row = toIssueRow(issue);
+    const messages = chat
+      .map((m) => ({
+        id: m.id,
+        createdAt: m.createdAt,
+        author: m.author.login,
+        role: m.author.role,
+        type: m.type ?? null,
+        text: m.text,
+        attachments: m.attachments ?? [],
+      }))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const sections = messages.map((m) =>
+      [
+        `### ${m.role} ${m.author} — ${m.createdAt}${m.type && m.type !== "REGULAR" ? ` (${m.type})` : ""}`,
+        "",
+        m.text,
+        ...m.attachments.map((a) => `- Attachment: [${a.fileName}](${a.url})`),
+      ].join("\n")
+    );
+    const description = issue.description ?? null;
+    return {
+      content: [
+        {
+          type: "text",
+          text: [
+            `## ${issue.type === "CLAIM" ? "Claim" : "Dispute"} ${issue.id}${issue.subject ? `: ${issue.subject}` : ""}`,
+            formatIssueRow(row),
+            ...(description ? [description] : []),
+            ...(sections.length > 0 ? sections : ["No messages."]),
+          ].join("\n\n"),
+        },
+      ],
+      structuredContent: { issue: row, description, messages },
+    };
+  },
+});
@@ -0,0 +1,144 @@
+import { z } from "zod";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import {
+  getMessageThread,
+  listThreadMessages,
+  markThreadRead,
+} from "../services/allegro/messaging.js";
+import type { Message } from "../services/allegro/types/index.js";
+import { createCursor, parseCursor } from "../utils/pagination.js";
+import { defineTool } from "./types.js";
+
+export const getMessageThreadInputSchema = z.object({
+  threadId: z.string().min(1).describe("Message thread id"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe("Number of most recent messages (default 20)"),
+  cursor: z.string().optional().describe("Cursor for older messages"),
+  markAsRead: z
+    .boolean()
+    .optional()
+    .describe("Mark the thread as read after fetching (default false)"),
+});
+
+const messageRowSchema = z.object({
+  id: z.string(),
+  createdAt: z.string(),
+  author: z.string(),
+  fromBuyer: z.boolean(),
+  status: z.string(),
+  subject: z.string().nullable(),
+  text: z.string(),
+  offerId: z.string().nullable(),
+  orderId: z.string().nullable(),
+  attachments: z.array(
+    z.object({
+      fileName: z.string(),
+      url: z.string(),
+      mimeType: z.string().nullable(),
+    })
+  ),
+});
+
+function toMessageRow(message: Message) {
+  return {
+    id: message.id,
+    createdAt: message.createdAt,
+    author: message.author.login,
+    fromBuyer: message.author.isInterlocutor,
+    status: message.status,
+    subject: message.subject ?? null,
+    text: message.text,
+    offerId: message.relatesTo?.offer?.id ?? null,
+    orderId: message.relatesTo?.order?.id ?? null,
+    attachments: (message.attachments ?? []).map((a) => ({
+      fileName: a.fileName,
+      url: a.url,
+      mimeType: a.mimeType ?? null,
+    })),
+  };
+}
+
+function formatMessage(row: z.infer<typeof messageRowSchema>) {
+  const context = [
+    row.offerId && `offer ${row.offerId}`,
+    row.orderId && `order ${row.orderId}`,
+  ].filter(Boolean);
+  return [
+    `### ${row.author}${row.fromBuyer ? "" : " (you)"} — ${row.createdAt}${context.length > 0 ? ` (${context.join(", ")})` : ""}`,
+    "",
+    ...(row.subject ? [`**${row.subject}**`, ""] : []),
+    row.text,
+    ...row.attachments.map((a) => `- Attachment: [${a.fileName}](${a.url})`),
+  ].join("\n");
+}
+
+export const getMessageThreadTool = defineTool({
+  name: "get_message_thread",
+  title: "Get Message Thread",
+  description:
+    "Read a message center conversation with a buyer, oldest message first, including related offer/order ids and attachments. Optionally marks the thread as read",
+  inputSchema: getMessageThreadInputSchema,
+  outputSchema: {
+    threadId: z.string().describe("Message thread id"),
+    interlocutor: z.string().describe("Buyer login"),
+    read: z.boolean().describe("Whether the thread is read"),
+    messages: z
+      .array(messageRowSchema)
+      .describe("Messages on this page, oldest first"),
+    nextCursor: z.string().optional().describe("Cursor for older messages"),
+  },
+  annotations: {
+    title: "Get Message Thread",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const limit = args.limit ?? 20;
+    const offset = parseCursor(args.cursor);
+    const [thread, page] = await Promise.all([
+      getMessageThread(allegro, args.threadId),
+      listThreadMessages(allegro, args.threadId, { limit, offset }),
+    ]);
+    const read =
+      args.markAsRead && !thread.read
+        ? (await markThreadRead(allegro, args.threadId)).read
+        : thread.read;
+    const messages = page.messages.map(toMessageRow).reverse();
+    const nextCursor =
+      page.messages.length === limit
+        ? createCursor(offset + page.messages.length)
+        : undefined;
+    const header = `## Conversation with ${thread.interlocutor.login}${read ? "" : " (unread)"}`;
+    const body =
+      messages.length > 0
+        ? messages.map(formatMessage).join("\n\n")
+        : "No messages.";
+    return {
+      content: [
+        {
+          type: "text",
+          text: [
+            header,
+            ...(nextCursor ? [`Older messages: cursor ${nextCursor}`] : []),
+            body,
+          ].join("\n\n"),
+        },
+      ],
+      structuredContent: {
+        threadId: thread.id,
+        interlocutor: thread.interlocutor.login,
+        read,
+        messages,
+        nextCursor,
+      },
+    };
+  },
+});
@@ -0,0 +1,245 @@
+import { z } from "zod";
+import {
+  getCategoryParameters,
+  getCategoryPath,
+  indexParameters,
+} from "../services/allegro/categories.js";
+import type { AllegroClient } from "../services/allegro/client.js";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import { getProductOffer } from "../services/allegro/offers.js";
+import type {
+  CategoryParameter,
+  NamedIdRef,
+  ParameterValue,
+  ProductOffer,
+} from "../services/allegro/types/index.js";
+import { formatKeyValueList } from "../utils/formatting.js";
+import { moneySchema } from "../utils/money.js";
+import { defineTool } from "./types.js";
+
+export const getOfferInputSchema = z.object({
+  offerId: z.string().min(1).describe("Allegro offer id"),
+});
+
+const namedRefSchema = z.object({
+  id: z.string(),
+  name: z.string().nullable(),
+});
+
+const parameterSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  values: z.array(z.string()),
+  unit: z.string().nullable(),
+  source: z.enum(["offer", "product"]),
+});
+
+export const offerViewSchema = {
+  id: z.string().describe("Offer id"),
+  title: z.string().describe("Offer title"),
+  category: z
+    .object({
+      id: z.string(),
+      path: z.array(namedRefSchema),
+    })
+    .describe("Category with its path from the root"),
+  productSet: z
+    .array(
+      z.object({
+        productId: z.string(),
+        quantity: z.number().nullable(),
+      })
+    )
+    .describe("Catalog products linked to the offer"),
+  parameters: z
+    .array(parameterSchema)
+    .describe("Offer and product parameters with readable names"),
+  price: moneySchema.nullable().describe("Buy-now price"),
+  sellingFormat: z.string().nullable().describe("Selling mode format"),
+  stock: z
+    .object({
+      available: z.number(),
+      unit: z.string().nullable(),
+    })
+    .nullable()
+    .describe("Available stock"),
+  delivery: z
+    .object({
+      shippingRates: namedRefSchema.nullable(),
+      handlingTime: z.string().nullable(),
+      additionalInfo: z.string().nullable(),
+    })
+    .describe("Delivery settings"),
+  afterSales: z
+    .object({
+      returnPolicy: namedRefSchema.nullable(),
+      impliedWarranty: namedRefSchema.nullable(),
+      warranty: namedRefSchema.nullable(),
+    })
+    .describe("After-sales policies"),
+  publication: z
+    .object({
+      status: z.string().nullable(),
+      startingAt: z.string().nullable(),
+      endingAt: z.string().nullable(),
+      endedBy: z.string().nullable(),
+    })
+    .describe("Publication state"),
+  externalId: z.string().nullable().describe("Seller's external id"),
+  imageCount: z.number().describe("Number of gallery images"),
+  validationErrors: z
+    .array(z.string())
+    .describe("Validation errors reported by Allegro"),
+};
+
+function toNamedRef(ref: NamedIdRef | null | undefined) {
+  return ref ? { id: ref.id, name: ref.name ?? null } : null;
+}
+
+function resolveParameterValues(
+  value: ParameterValue,
+  definition: CategoryParameter | undefined
+) {
+  if (value.rangeValue) {
+    return [`${value.rangeValue.from}–${value.rangeValue.to}`];
+  }
+  const dictionary = new Map(
+    (definition?.dictionary ?? []).map((entry) => [entry.id, entry.value])
+  );
+  const fromIds = (value.valuesIds ?? []).map((id) => dictionary.get(id) ?? id);
+  return [...fromIds, ...(value.values ?? [])];
+}
+
+function normalizeParameters(
+  offer: ProductOffer,
+  definitions: Map<string, CategoryParameter>
+) {
+  const toView = (value: ParameterValue, source: "offer" | "product") => {
+    const definition = definitions.get(value.id);
+    return {
+      id: value.id,
+      name: definition?.name ?? value.name ?? value.id,
+      values: resolveParameterValues(value, definition),
+      unit: definition?.unit ?? null,
+      source,
+    };
+  };
+  return [
+    ...(offer.parameters ?? []).map((p) => toView(p, "offer")),
+    ...(offer.productSet ?? []).flatMap((element) =>
+      (element.product.parameters ?? []).map((p) => toView(p, "product"))
+    ),
+  ];
+}
+
+export async function loadOfferView(allegro: AllegroClient, offerId: string) {
+  const offer = await getProductOffer(allegro, offerId);
+  const [categoryPath, parameters] = await Promise.all([
+    getCategoryPath(allegro, offer.category.id),
+    getCategoryParameters(allegro, offer.category.id),
+  ]);
+  const view = {
+    id: offer.id,
+    title: offer.name,
+    category: {
+      id: offer.category.id,
+      path: categoryPath.map((c) => ({ id: c.id, name: c.name })),
+    },
+    productSet: (offer.productSet ?? []).map((element) => ({
+      productId: element.product.id,
+      quantity: element.quantity?.value ?? null,
+    })),
+    parameters: normalizeParameters(offer, indexParameters(parameters)),
+    price: offer.sellingMode?.price ?? null,
+    sellingFormat: offer.sellingMode?.format ?? null,
+    stock: offer.stock
+      ? { available: offer.stock.available, unit: offer.stock.unit ?? null }
+      : null,
+    delivery: {
+      shippingRates: toNamedRef(offer.delivery?.shippingRates),
+      handlingTime: offer.delivery?.handlingTime ?? null,
+      additionalInfo: offer.delivery?.additionalInfo ?? null,
+    },
+    afterSales: {
+      returnPolicy: toNamedRef(offer.afterSalesServices?.returnPolicy),
+      impliedWarranty: toNamedRef(offer.afterSalesServices?.impliedWarranty),
+      warranty: toNamedRef(offer.afterSalesServices?.warranty),
+    },
+    publication: {
+      status: offer.publication?.status ?? null,
+      startingAt: offer.publication?.startingAt ?? null,
+      endingAt: offer.publication?.endingAt ?? null,
+      endedBy: offer.publication?.endedBy ?? null,
+    },
+    externalId: offer.external?.id ?? null,
+    imageCount: offer.images?.length ?? 0,
+    validationErrors: (offer.validation?.errors ?? []).map(
+      (e) => e.userMessage || e.message
+    ),
+  };
+  return { offer, view };
+}
+
+export type OfferView = Awaited<ReturnType<typeof loadOfferView>>["view"];
+
+export function formatOfferView(view: OfferView) {
+  const parts = [
+    `## ${view.title} (${view.id})`,
+    "",
+    formatKeyValueList({
+      category: view.category.path.map((c) => c.name).join(" > "),
+      status: view.publication.status,
+      price: view.price ? `${view.price.amount} ${view.price.currency}` : null,
+      format: view.sellingFormat,
+      stock: view.stock
+        ? `${view.stock.available} ${view.stock.unit ?? ""}`.trim()
+        : null,
+      shipping: view.delivery.shippingRates?.name,
+      handlingTime: view.delivery.handlingTime,
+      returnPolicy: view.afterSales.returnPolicy?.name,
+      impliedWarranty: view.afterSales.impliedWarranty?.name,
+      warranty: view.afterSales.warranty?.name,
+      externalId: view.externalId,
+      products: view.productSet.map((p) => p.productId).join(", ") || null,
+      images: view.imageCount,
+    }),
+  ];
+  if (view.parameters.length > 0) {
+    parts.push("", "### Parameters", "");
+    parts.push(
+      ...view.parameters.map(
+        (p) =>
+          `- ${p.name}: ${p.values.join(", ")}${p.unit ? ` ${p.unit}` : ""}`
+      )
+    );
+  }
+  if (view.validationErrors.length > 0) {
+    parts.push("", "### Validation errors", "");
+    parts.push(...view.validationErrors.map((e) => `- ${e}`));
+  }
+  return parts.join("\n");
+}
+
+export const getOfferTool = defineTool({
+  name: "get_offer",
+  title: "Get Offer",
+  description:
+    "Fetch one Allegro offer with category path, product linkage, named parameters, price, stock, delivery, after-sales policies and publication state",
+  inputSchema: getOfferInputSchema,
+  outputSchema: offerViewSchema,
+  annotations: {
+    title: "Get Offer Details",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const { view } = await loadOfferView(allegro, args.offerId);
+    return {
+      content: [{ type: "text", text: formatOfferView(view) }],
+      structuredContent: view,
+    };
+  },
+});
@@ -0,0 +1,202 @@
+import { z } from "zod";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import { getOrder } from "../services/allegro/orders.js";
+import type { Address, CheckoutForm } from "../services/allegro/types/index.js";
+import { formatKeyValueList } from "../utils/formatting.js";
+import { moneySchema } from "../utils/money.js";
+import { orderRowSchema, toOrderRow } from "./list-orders.js";
+import { defineTool } from "./types.js";
+
+export const getOrderInputSchema = z.object({
+  orderId: z.string().min(1).describe("Checkout form id"),
+});
+
+const addressSchema = z.object({
+  name: z.string().nullable(),
+  companyName: z.string().nullable(),
+  street: z.string().nullable(),
+  zipCode: z.string().nullable(),
+  city: z.string().nullable(),
+  countryCode: z.string().nullable(),
+  phoneNumber: z.string().nullable(),
+});
+
+export const orderDetailSchema = orderRowSchema.extend({
+  buyer: z.object({
+    id: z.string(),
+    login: z.string(),
+    email: z.string(),
+    name: z.string().nullable(),
+    guest: z.boolean(),
+    phoneNumber: z.string().nullable(),
+  }),
+  deliveryAddress: addressSchema.nullable(),
+  pickupPoint: z
+    .object({
+      id: z.string(),
+      name: z.string().nullable(),
+      address: addressSchema.nullable(),
+    })
+    .nullable(),
+  deliveryCost: moneySchema.nullable(),
+  invoice: z
+    .object({
+      required: z.boolean(),
+      companyName: z.string().nullable(),
+      taxId: z.string().nullable(),
+      address: addressSchema.nullable(),
+    })
+    .nullable(),
+  surcharges: z.array(
+    z.object({
+      id: z.string(),
+      type: z.string(),
+      paidAmount: moneySchema,
+    })
+  ),
+  note: z.string().nullable(),
+  messageToSeller: z.string().nullable(),
+});
+
+export type OrderDetail = z.infer<typeof orderDetailSchema>;
+
+function joinName(first?: string, last?: string) {
+  return [first, last].filter(Boolean).join(" ") || null;
+}
+
+function toAddress(address: Address | null | undefined) {
+  if (!address) {
+    return null;
+  }
+  return {
+    name: joinName(address.firstName, address.lastName),
+    companyName: address.companyName ?? null,
+    street: address.street ?? null,
+    zipCode: address.zipCode ?? address.postCode ?? null,
+    city: address.city ?? null,
+    countryCode: address.countryCode ?? null,
+    phoneNumber: address.phoneNumber ?? null,
+  };
+}
+
+export function toOrderDetail(form: CheckoutForm): OrderDetail {
+  const invoice = form.invoice;
+  const pickupPoint = form.delivery?.pickupPoint;
+  return {
+    ...toOrderRow(form),
+    buyer: {
+      id: form.buyer.id,
+      login: form.buyer.login,
+      email: form.buyer.email,
+      name: joinName(form.buyer.firstName, form.buyer.lastName),
+      guest: form.buyer.guest,
+      phoneNumber: form.buyer.phoneNumber ?? null,
+    },
+    deliveryAddress: toAddress(form.delivery?.address),
+    pickupPoint: pickupPoint
+      ? {
+          id: pickupPoint.id,
+          name: pickupPoint.name ?? null,
+          address: toAddress(pickupPoint.address),
+        }
+      : null,
+    deliveryCost: form.delivery?.cost ?? null,
+    invoice: invoice
+      ? {
+          required: invoice.required,
+          companyName: invoice.address?.company?.name ?? null,
+          taxId: invoice.address?.company?.taxId ?? null,
+          address: toAddress(invoice.address),
+        }
+      : null,
+    surcharges: (form.surcharges ?? []).map((surcharge) => ({
+      id: surcharge.id,
+      type: surcharge.type,
+      paidAmount: surcharge.paidAmount,
+    })),
+    note: form.note?.text ?? null,
+    messageToSeller: form.messageToSeller ?? null,
+  };
+}
+
+function formatAddress(address: OrderDetail["deliveryAddress"]) {
+  if (!address) {
+    return null;
+  }
+  return [
+    address.name,
+    address.companyName,
+    address.street,
+    [address.zipCode, address.city].filter(Boolean).join(" "),
+    address.countryCode,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+export function formatOrderDetail(order: OrderDetail) {
+  const parts = [
+    `## Order ${order.id}`,
+    "",
+    formatKeyValueList({
+      status: order.status,
+      fulfillment: order.fulfillmentStatus,
+      buyer: `${order.buyer.login} <${order.buyer.email}>${order.buyer.guest ? " (guest)" : ""}`,
+      total: `${order.totalToPay.amount} ${order.totalToPay.currency}`,
+      payment: order.payment
+        ? `${order.payment.type}, ${order.payment.finishedAt ? `paid ${order.payment.finishedAt}` : "unpaid"}`
+        : null,
+      delivery: order.delivery?.methodName ?? order.delivery?.methodId,
+      deliveryAddress: formatAddress(order.deliveryAddress),
+      pickupPoint: order.pickupPoint
+        ? `${order.pickupPoint.name ?? order.pickupPoint.id} (${order.pickupPoint.id})`
+        : null,
+      invoice: order.invoice?.required
+        ? `required${order.invoice.taxId ? `, NIP ${order.invoice.taxId}` : ""}`
+        : "not required",
+      note: order.note,
+      messageToSeller: order.messageToSeller,
+      revision: order.revision,
+    }),
+    "",
+    "### Line items",
+    "",
+    ...order.lineItems.map(
+      (item) =>
+        `- ${item.quantity} × ${item.offerName} (${item.offerId}) — ${item.price.amount} ${item.price.currency}`
+    ),
+  ];
+  if (order.surcharges.length > 0) {
+    parts.push("", "### Surcharges", "");
+    parts.push(
+      ...order.surcharges.map(
+        (s) => `- ${s.type}: ${s.paidAmount.amount} ${s.paidAmount.currency}`
+      )
+    );
+  }
+  return parts.join("\n");
+}
+
+export const getOrderTool = defineTool({
+  name: "get_order",
+  title: "Get Order",
+  description:
+    "Fetch one Allegro order (checkout form) with line items, buyer, delivery address or pickup point, payment, invoice requirement, surcharges and note",
+  inputSchema: getOrderInputSchema,
+  outputSchema: orderDetailSchema.shape,
+  annotations: {
+    title: "Get Order Details",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const order = toOrderDetail(await getOrder(allegro, args.orderId));
+    return {
+      content: [{ type: "text", text: formatOrderDetail(order) }],
+      structuredContent: order,
+    };
+  },
+});
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import {
+  formatShipmentCommand,
+  shipmentCommandSchema,
+  toShipmentCommandResult,
+  waitForShipmentCommand,
+} from "./create-shipment.js";
+import { defineTool } from "./types.js";
+
+export const getShipmentCommandInputSchema = z.object({
+  commandId: z.string().min(1).describe("Command id from create_shipment"),
+  waitSeconds: z
+    .number()
+    .int()
+    .min(0)
+    .max(120)
+    .optional()
+    .describe("How long to wait while the command is in progress (default 0)"),
+});
+
+export const getShipmentCommandTool = defineTool({
+  name: "get_shipment_command",
+  title: "Get Shipment Command",
+  description:
+    "Check a shipment creation command and return the shipment id once Allegro has created it",
+  inputSchema: getShipmentCommandInputSchema,
+  outputSchema: shipmentCommandSchema,
+  annotations: {
+    title: "Get Shipment Command",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const result = toShipmentCommandResult(
+      await waitForShipmentCommand(
+        context,
+        args.commandId,
+        args.waitSeconds ?? 0
+      )
+    );
+    return {
+      content: [{ type: "text", text: formatShipmentCommand(result) }],
+      structuredContent: result,
+    };
+  },
+});
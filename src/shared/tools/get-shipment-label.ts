@@ -0,0 +1,76 @@
+import { z } from "zod";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import { getShipmentLabel } from "../services/allegro/shipments.js";
+import { defineTool } from "./types.js";
+
+export const getShipmentLabelInputSchema = z.object({
+  shipmentIds: z
+    .array(z.string().min(1))
+    .min(1)
+    .max(100)
+    .describe("Shipment ids to print labels for"),
+  pageSize: z
+    .enum(["A4", "A6"])
+    .optional()
+    .describe("Label page size (default A6)"),
+  labelFormat: z
+    .enum(["PDF", "ZPL", "EPL"])
+    .optional()
+    .describe(
+      "Label format the shipments were created with in create_shipment (default PDF)"
+    ),
+});
+
+export const getShipmentLabelTool = defineTool({
+  name: "get_shipment_label",
+  title: "Get Shipment Label",
+  description:
+    "Download the label for one or more Wysyłam z Allegro shipments as an embedded resource (PDF, ZPL or EPL, matching the shipments' label format)",
+  inputSchema: getShipmentLabelInputSchema,
+  outputSchema: {
+    uri: z.string().describe("URI of the embedded label resource"),
+    shipmentIds: z.array(z.string()).describe("Shipments on the label"),
+    pageSize: z.enum(["A4", "A6"]).describe("Label page size"),
+    mimeType: z.string().describe("MIME type of the label file"),
+    sizeBytes: z.number().describe("Label size in bytes"),
+  },
+  annotations: {
+    title: "Get Shipment Label",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const pageSize = args.pageSize ?? "A6";
+    const labelFormat = args.labelFormat ?? "PDF";
+    const { blob, mimeType } = await getShipmentLabel(
+      allegro,
+      args.shipmentIds,
+      pageSize,
+      labelFormat
+    );
+    const uri = `allegro://shipments/${args.shipmentIds.map(encodeURIComponent).join(",")}/label.${labelFormat.toLowerCase()}`;
+    const sizeBytes = Buffer.byteLength(blob, "base64");
+    return {
+      content: [
+        {
+          type: "text",
+          text: `${labelFormat} label for ${args.shipmentIds.length} shipment(s), ${pageSize}, ${sizeBytes} bytes.`,
+        },
+        {
+          type: "resource",
+          resource: { uri, mimeType, blob },
+        },
+      ],
+      structuredContent: {
+        uri,
+        shipmentIds: args.shipmentIds,
+        pageSize,
+        mimeType,
+        sizeBytes,
+      },
+    };
+  },
+});
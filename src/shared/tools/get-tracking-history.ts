@@ -0,0 +1,88 @@
+import { z } from "zod";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import { getCarrierTracking } from "../services/allegro/orders.js";
+import { defineTool } from "./types.js";
+
+export const getTrackingHistoryInputSchema = z.object({
+  carrierId: z.string().min(1).describe("Carrier id, e.g. DPD"),
+  waybills: z
+    .array(z.string().min(1))
+    .min(1)
+    .max(20)
+    .describe("Tracking numbers to look up"),
+});
+
+const trackingEventSchema = z.object({
+  occurredAt: z.string(),
+  code: z.string(),
+  description: z.string().nullable(),
+});
+
+export const getTrackingHistoryTool = defineTool({
+  name: "get_tracking_history",
+  title: "Get Tracking History",
+  description:
+    "Show the tracking timeline of parcels for a carrier as reported to Allegro",
+  inputSchema: getTrackingHistoryInputSchema,
+  outputSchema: {
+    carrierId: z.string().describe("Carrier id"),
+    waybills: z
+      .array(
+        z.object({
+          waybill: z.string(),
+          latestStatus: z.string().nullable(),
+          events: z.array(trackingEventSchema),
+        })
+      )
+      .describe("Tracking timeline per waybill, oldest first"),
+  },
+  annotations: {
+    title: "Get Tracking History",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const carrierId = args.carrierId.toUpperCase();
+    const response = await getCarrierTracking(
+      allegro,
+      carrierId,
+      args.waybills
+    );
+    const waybills = response.waybills.map((entry) => {
+      const events = (entry.trackingDetails?.statuses ?? [])
+        .map((status) => ({
+          occurredAt: status.occurredAt,
+          code: status.code,
+          description: status.description ?? null,
+        }))
+        .sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
+      return {
+        waybill: entry.waybill,
+        latestStatus: events.at(-1)?.code ?? null,
+        events,
+      };
+    });
+    const sections = waybills.map((entry) =>
+      [
+        `### ${entry.waybill} — ${entry.latestStatus ?? "no tracking data"}`,
+        "",
+        ...entry.events.map(
+          (e) =>
+            `- ${e.occurredAt} ${e.code}${e.description ? `: ${e.description}` : ""}`
+        ),
+      ].join("\n")
+    );
+    return {
+      content: [
+        {
+          type: "text",
+          text: [`## Tracking (${carrierId})`, ...sections].join("\n\n"),
+        },
+      ],
+      structuredContent: { carrierId, waybills },
+    };
+  },
+});
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { resolveAllegroConfig } from "../services/allegro/context.js";
 import { defineTool } from "./types.js";
 
 export const healthInputSchema = z.object({
@@ -17,6 +18,9 @@ export const healthTool = defineTool({
     status: z.string().describe("Server status"),
     timestamp: z.number().describe("Current timestamp"),
     runtime: z.string().describe("Runtime environment"),
+    allegroEnvironment: z
+      .enum(["sandbox", "production"])
+      .describe("Active Allegro environment"),
     uptime: z.number().optional().describe("Uptime in seconds (if available)"),
   },
   annotations: {
@@ -35,6 +39,7 @@ export const healthTool = defineTool({
       status: "ok",
       timestamp: Date.now(),
       runtime,
+      allegroEnvironment: resolveAllegroConfig().ALLEGRO_ENV,
     };
     if (verbose && !isWorkers && typeof process !== "undefined") {
       result.uptime = Math.floor(process.uptime());
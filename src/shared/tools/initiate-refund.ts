@@ -0,0 +1,329 @@
+import { z } from "zod";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import { getOrder } from "../services/allegro/orders.js";
+import {
+  createRefund,
+  lineItemRefundAmount,
+  listPaymentRefunds,
+  refundableDelivery,
+  refundableLineItems,
+  refundableSurcharges,
+} from "../services/allegro/payments.js";
+import type {
+  CheckoutForm,
+  PaymentRefund,
+  RefundRequest,
+} from "../services/allegro/types/index.js";
+import { createAuditRecorder, withAudit } from "../services/audit.js";
+import {
+  clientSupportsFormElicitation,
+  elicitForm,
+} from "../utils/elicitation.js";
+import { roundMoney, sumMoney } from "../utils/money.js";
+import { defineTool, invalidInput, type ToolContext } from "./types.js";
+
+const REFUND_ACTION = "initiate_refund";
+
+export const initiateRefundInputSchema = z.object({
+  orderId: z.string().min(1).describe("Checkout form id to refund"),
+  reason: z
+    .enum([
+      "REFUND",
+      "COMPLAINT",
+      "PRODUCT_NOT_AVAILABLE",
+      "PAID_VALUE_TOO_LOW",
+    ])
+    .optional()
+    .describe("Refund reason (default REFUND)"),
+  lineItems: z
+    .array(
+      z.object({
+        lineItemId: z.string().min(1).describe("Line item id"),
+        quantity: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("Units to refund (default: all refundable units)"),
+      })
+    )
+    .optional()
+    .describe("Line items to refund (default: everything still refundable)"),
+  refundDelivery: z
+    .boolean()
+    .optional()
+    .describe("Also refund the remaining delivery cost"),
+  refundSurcharges: z
+    .boolean()
+    .optional()
+    .describe("Also refund remaining surcharges"),
+  sellerComment: z
+    .string()
+    .max(100)
+    .optional()
+    .describe("Comment shown to the buyer"),
+});
+
+type InitiateRefundArgs = z.infer<typeof initiateRefundInputSchema>;
+
+const refundLineSchema = z.object({
+  lineItemId: z.string(),
+  offerName: z.string(),
+  quantity: z.number(),
+  amount: z.number(),
+});
+
+interface RefundPlan {
+  currency: string;
+  lines: z.infer<typeof refundLineSchema>[];
+  delivery: number | null;
+  surcharges: Array<{
+    id: string;
+    amount: number;
+  }>;
+  total: number;
+}
+
+function findDuplicates(ids: string[]) {
+  return [...new Set(ids.filter((id, i) => ids.indexOf(id) !== i))];
+}
+
+function planLines(
+  order: CheckoutForm,
+  refunds: PaymentRefund[],
+  selection: InitiateRefundArgs["lineItems"]
+) {
+  const refundable = refundableLineItems(order, refunds);
+  const problems = findDuplicates(
+    (selection ?? []).map((l) => l.lineItemId)
+  ).map((id) => `Line item ${id} is listed more than once`);
+  const lines: RefundPlan["lines"] = [];
+  const wanted =
+    selection ??
+    order.lineItems.map((item) => ({
+      lineItemId: item.id,
+      quantity: undefined,
+    }));
+  for (const { lineItemId, quantity } of wanted) {
+    const item = order.lineItems.find((i) => i.id === lineItemId);
+    const remaining = refundable.get(lineItemId);
+    if (!(item && remaining)) {
+      problems.push(`Line item ${lineItemId} is not part of order ${order.id}`);
+      continue;
+    }
+    const units = quantity ?? remaining.quantity;
+    if (units > remaining.quantity) {
+      problems.push(
+        `Line item ${lineItemId} has only ${remaining.quantity} refundable units`
+      );
+      continue;
+    }
+    const amount = lineItemRefundAmount(item, units, remaining);
+    if (units > 0 && amount > 0) {
+      lines.push({
+        lineItemId,
+        offerName: item.offer.name,
+        quantity: units,
+        amount,
+      });
+    } else if (selection) {
+      problems.push(`Line item ${lineItemId} has nothing left to refund`);
+    }
+  }
+  return { lines, problems };
+}
+
+function planRefund(
+  order: CheckoutForm,
+  refunds: PaymentRefund[],
+  args: InitiateRefundArgs
+) {
+  const { lines, problems } = planLines(order, refunds, args.lineItems);
+  const delivery = args.refundDelivery ? refundableDelivery(order, refunds) : 0;
+  const surcharges = args.refundSurcharges
+    ? refundableSurcharges(order, refunds)
+    : [];
+  const total = sumMoney([
+    ...lines.map((l) => l.amount),
+    delivery,
+    ...surcharges.map((s) => s.amount),
+  ]);
+  if (problems.length === 0 && total <= 0) {
+    problems.push(`Nothing left to refund on order ${order.id}`);
+  }
+  const plan: RefundPlan = {
+    currency: order.summary.totalToPay.currency,
+    lines,
+    delivery: delivery > 0 ? delivery : null,
+    surcharges,
+    total,
+  };
+  return { plan, problems };
+}
+
+function toRefundRequest(
+  order: CheckoutForm,
+  paymentId: string,
+  plan: RefundPlan,
+  args: InitiateRefundArgs
+): RefundRequest {
+  const money = (amount: number) => ({
+    amount: amount.toFixed(2),
+    currency: plan.currency,
+  });
+  const prices = new Map(
+    order.lineItems.map((item) => [item.id, Number(item.price.amount)])
+  );
+  return {
+    payment: { id: paymentId },
+    reason: args.reason ?? "REFUND",
+    lineItems: plan.lines.map((l) =>
+      l.amount < roundMoney(l.quantity * (prices.get(l.lineItemId) ?? 0))
+        ? { id: l.lineItemId, type: "AMOUNT", value: money(l.amount) }
+        : { id: l.lineItemId, type: "QUANTITY", quantity: l.quantity }
+    ),
+    ...(plan.delivery && { delivery: { value: money(plan.delivery) } }),
+    ...(plan.surcharges.length > 0 && {
+      surcharges: plan.surcharges.map((s) => ({
+        id: s.id,
+        value: money(s.amount),
+      })),
+    }),
+    ...(args.sellerComment && { sellerComment: args.sellerComment }),
+  };
+}
+
+function formatPlan(order: CheckoutForm, plan: RefundPlan) {
+  const amount = (value: number) => `${value.toFixed(2)} ${plan.currency}`;
+  return [
+    `Refund for order ${order.id} (buyer ${order.buyer.login}):`,
+    "",
+    ...plan.lines.map(
+      (l) => `- ${l.offerName} × ${l.quantity}: ${amount(l.amount)}`
+    ),
+    ...(plan.delivery ? [`- Delivery: ${amount(plan.delivery)}`] : []),
+    ...plan.surcharges.map((s) => `- Surcharge ${s.id}: ${amount(s.amount)}`),
+    "",
+    `**Total: ${amount(plan.total)}**`,
+  ].join("\n");
+}
+
+async function confirmRefund(
+  context: ToolContext,
+  orderId: string,
+  summary: string
+) {
+  const { server } = context;
+  if (!(server && clientSupportsFormElicitation(server))) {
+    return "unsupported" as const;
+  }
+  const result = await elicitForm(server, {
+    message: `${summary}\n\nThis sends money back to the buyer and cannot be undone. Type the order id to confirm.`,
+    requestedSchema: {
+      type: "object",
+      properties: {
+        confirmOrderId: {
+          type: "string",
+          title: "Order id",
+          description: `Type ${orderId} to confirm the refund`,
+        },
+      },
+      required: ["confirmOrderId"],
+    },
+  });
+  if (result.action !== "accept") {
+    return "cancelled" as const;
+  }
+  return String(result.content?.confirmOrderId ?? "").trim() === orderId
+    ? ("confirmed" as const)
+    : ("mismatch" as const);
+}
+
+export const initiateRefundTool = defineTool({
+  name: "initiate_refund",
+  title: "Initiate Refund",
+  description:
+    "Refund a buyer for an order's line items, delivery and surcharges. Computes what is still refundable, shows the exact amounts and only proceeds when the user types the order id into the confirmation form. Every attempt is written to the server log as an audit entry",
+  inputSchema: initiateRefundInputSchema,
+  outputSchema: {
+    orderId: z.string().describe("Checkout form id"),
+    paymentId: z.string().describe("Refunded payment id"),
+    status: z
+      .enum(["SUBMITTED", "CANCELLED", "NOT_CONFIRMED"])
+      .describe("What happened to the refund"),
+    refundId: z.string().nullable().describe("Id of the created refund"),
+    currency: z.string().describe("Refund currency"),
+    lines: z.array(refundLineSchema).describe("Refunded line items"),
+    delivery: z.number().nullable().describe("Refunded delivery cost"),
+    surcharges: z
+      .array(z.object({ id: z.string(), amount: z.number() }))
+      .describe("Refunded surcharges"),
+    total: z.number().describe("Total refund amount"),
+  },
+  annotations: {
+    title: "Initiate Refund",
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const order = await getOrder(allegro, args.orderId);
+    const paymentId = order.payment?.id;
+    if (!paymentId) {
+      throw new Error(`Order ${order.id} has no payment to refund`);
+    }
+    const refunds = await listPaymentRefunds(allegro, paymentId);
+    const { plan, problems } = planRefund(order, refunds, args);
+    if (problems.length > 0) {
+      return invalidInput(problems.join("; "));
+    }
+    const summary = formatPlan(order, plan);
+    const result = { orderId: order.id, paymentId, refundId: null, ...plan };
+    const audit = createAuditRecorder(context, {
+      action: REFUND_ACTION,
+      target: order.id,
+      details: { paymentId, total: plan.total, currency: plan.currency },
+    });
+    return withAudit(audit, async () => {
+      const confirmation = await confirmRefund(context, order.id, summary);
+      if (confirmation !== "confirmed") {
+        audit(confirmation);
+        const reason = {
+          unsupported:
+            "The client cannot show confirmation forms, so nothing was refunded.",
+          cancelled: "Refund cancelled.",
+          mismatch:
+            "The confirmation did not match the order id, so nothing was refunded.",
+        }[confirmation];
+        return {
+          content: [{ type: "text", text: `${summary}\n\n${reason}` }],
+          structuredContent: {
+            ...result,
+            status:
+              confirmation === "cancelled" ? "CANCELLED" : "NOT_CONFIRMED",
+          },
+        };
+      }
+      const refund = await createRefund(
+        allegro,
+        toRefundRequest(order, paymentId, plan, args)
+      );
+      audit("submitted", { refundId: refund.id, status: refund.status });
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${summary}\n\nRefund ${refund.id} submitted (${refund.status}).`,
+          },
+        ],
+        structuredContent: {
+          ...result,
+          status: "SUBMITTED",
+          refundId: refund.id,
+        },
+      };
+    });
+  },
+});
@@ -0,0 +1,244 @@
+import { z } from "zod";
+import {
+  collectBillingEntries,
+  listBillingTypes,
+} from "../services/allegro/billing.js";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import type { BillingEntry } from "../services/allegro/types/index.js";
+import { toTimestamp } from "../utils/dates.js";
+import { roundMoney } from "../utils/money.js";
+import { createProgressReporter } from "../utils/progress.js";
+import { defineTool, invalidInput } from "./types.js";
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_OFFER_GROUPS = 50;
+const CSV_SPECIAL = /[",\r\n]/;
+const CSV_FORMULA_START = /^[=+\-@]/;
+
+export const listBillingEntriesInputSchema = z.object({
+  from: z
+    .string()
+    .optional()
+    .describe("Start date or ISO timestamp (default: 30 days ago)"),
+  to: z
+    .string()
+    .optional()
+    .describe("End date or ISO timestamp (default: now)"),
+  typeIds: z
+    .array(z.string().min(1))
+    .optional()
+    .describe("Billing type ids, e.g. SUC for sale commission"),
+  offerId: z.string().optional().describe("Only entries for this offer"),
+  orderId: z.string().optional().describe("Only entries for this order"),
+  maxEntries: z
+    .number()
+    .int()
+    .min(1)
+    .max(50_000)
+    .optional()
+    .describe("Maximum number of entries to fetch (default 10000)"),
+});
+
+const aggregateSchema = z.object({
+  key: z.string(),
+  label: z.string().nullable(),
+  currency: z.string(),
+  amount: z.number(),
+  count: z.number(),
+});
+
+type Aggregate = z.infer<typeof aggregateSchema>;
+
+function aggregate(
+  entries: BillingEntry[],
+  keyOf: (entry: BillingEntry) => [string, string | null] | undefined
+) {
+  const groups = new Map<string, Aggregate>();
+  for (const entry of entries) {
+    const group = keyOf(entry);
+    if (!group) {
+      continue;
+    }
+    const [key, label] = group;
+    const { currency } = entry.value;
+    const id = `${key}|${currency}`;
+    const current = groups.get(id) ?? {
+      key,
+      label,
+      currency,
+      amount: 0,
+      count: 0,
+    };
+    current.amount += Number(entry.value.amount);
+    current.count += 1;
+    groups.set(id, current);
+  }
+  return [...groups.values()].map((g) => ({
+    ...g,
+    amount: roundMoney(g.amount),
+  }));
+}
+
+function byMagnitude(a: Aggregate, b: Aggregate) {
+  return Math.abs(b.amount) - Math.abs(a.amount);
+}
+
+function csvCell(value: string | null | undefined) {
+  const raw = value ?? "";
+  // Spreadsheets evaluate text cells starting with these as formulas.
+  const text =
+    CSV_FORMULA_START.test(raw) && Number.isNaN(Number(raw)) ? `'${raw}` : raw;
+  return CSV_SPECIAL.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toBillingCsv(entries: BillingEntry[]) {
+  const header =
+    "id,occurredAt,typeId,typeName,offerId,offerName,orderId,amount,currency,balance";
+  const rows = entries.map((e) =>
+    [
+      e.id,
+      e.occurredAt,
+      e.type.id,
+      e.type.name,
+      e.offer?.id,
+      e.offer?.name,
+      e.order?.id,
+      e.value.amount,
+      e.value.currency,
+      e.balance?.amount,
+    ]
+      .map(csvCell)
+      .join(",")
+  );
+  return [header, ...rows].join("\n");
+}
+
+function formatAggregate(a: Aggregate) {
+  return `- ${a.label ?? a.key}${a.label ? ` (${a.key})` : ""}: ${a.amount.toFixed(2)} ${a.currency} in ${a.count} entries`;
+}
+
+export const listBillingEntriesTool = defineTool({
+  name: "list_billing_entries",
+  title: "List Billing Entries",
+  description:
+    "Fetch Allegro billing entries (fees, commissions, refunds) for a date range with optional type, offer or order filters, and total them per type, per offer and per day. The raw entries are attached as CSV",
+  inputSchema: listBillingEntriesInputSchema,
+  outputSchema: {
+    from: z.string().describe("Start of the range"),
+    to: z.string().describe("End of the range"),
+    entryCount: z.number().describe("Number of entries aggregated"),
+    truncated: z
+      .boolean()
+      .describe("Whether maxEntries was reached before the range ended"),
+    totals: z
+      .array(z.object({ currency: z.string(), amount: z.number() }))
+      .describe("Net total per currency"),
+    byType: z.array(aggregateSchema).describe("Totals per billing type"),
+    byOffer: z
+      .array(aggregateSchema)
+      .describe(`Totals for the ${MAX_OFFER_GROUPS} largest offers`),
+    byDay: z.array(aggregateSchema).describe("Totals per day (UTC)"),
+    csvUri: z.string().describe("URI of the embedded CSV resource"),
+  },
+  annotations: {
+    title: "List Billing Entries",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const to = args.to ? toTimestamp(args.to, true) : new Date().toISOString();
+    const from = args.from
+      ? toTimestamp(args.from, false)
+      : new Date(
+          Date.parse(to) - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000
+        ).toISOString();
+    const types = await listBillingTypes(allegro);
+    const typeNames = new Map(types.map((t) => [t.id, t.description]));
+    const typeIds = args.typeIds?.map((id) => id.toUpperCase());
+    const unknownTypes = typeIds?.filter((id) => !typeNames.has(id)) ?? [];
+    if (unknownTypes.length > 0) {
+      return invalidInput(
+        `unknown billing type ids: ${unknownTypes.join(", ")}. Known types:\n${types.map((t) => `- ${t.id}: ${t.description}`).join("\n")}`
+      );
+    }
+    const progress = context.server
+      ? createProgressReporter(context.server, context.meta?.progressToken)
+      : null;
+    const maxEntries = args.maxEntries ?? 10_000;
+    const { entries, truncated } = await collectBillingEntries(
+      allegro,
+      { from, to, typeIds, offerId: args.offerId, orderId: args.orderId },
+      {
+        maxEntries,
+        signal: context.signal,
+        onPage: (fetched) =>
+          progress?.report(fetched, undefined, `Fetched ${fetched} entries`),
+      }
+    );
+    const totals = aggregate(entries, () => ["total", null]).map((t) => ({
+      currency: t.currency,
+      amount: t.amount,
+    }));
+    const byType = aggregate(entries, (e) => [
+      e.type.id,
+      typeNames.get(e.type.id) ?? e.type.name ?? null,
+    ]).sort(byMagnitude);
+    const byOffer = aggregate(entries, (e) =>
+      e.offer ? [e.offer.id, e.offer.name ?? null] : undefined
+    )
+      .sort(byMagnitude)
+      .slice(0, MAX_OFFER_GROUPS);
+    const byDay = aggregate(entries, (e) => [
+      e.occurredAt.slice(0, 10),
+      null,
+    ]).sort((a, b) => a.key.localeCompare(b.key));
+    await progress?.report(
+      entries.length,
+      entries.length,
+      "Billing entries aggregated"
+    );
+    const csvUri = `allegro://billing/entries.csv?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`;
+    const text = [
+      `## Billing ${from.slice(0, 10)} – ${to.slice(0, 10)} (${entries.length} entries${truncated ? ", truncated" : ""})`,
+      "",
+      ...totals.map(
+        (t) => `**Net total:** ${t.amount.toFixed(2)} ${t.currency}`
+      ),
+      "",
+      "### By type",
+      ...byType.map(formatAggregate),
+      "",
+      "### Top offers",
+      ...(byOffer.length > 0
+        ? byOffer.slice(0, 10).map(formatAggregate)
+        : ["- none"]),
+    ].join("\n");
+    return {
+      content: [
+        { type: "text", text },
+        {
+          type: "resource",
+          resource: {
+            uri: csvUri,
+            mimeType: "text/csv",
+            text: toBillingCsv(entries),
+          },
+        },
+      ],
+      structuredContent: {
+        from,
+        to,
+        entryCount: entries.length,
+        truncated,
+        totals,
+        byType,
+        byOffer,
+        byDay,
+        csvUri,
+      },
+    };
+  },
+});
@@ -0,0 +1,155 @@
+import { z } from "zod";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import { listCustomerReturns } from "../services/allegro/orders.js";
+import type {
+  CustomerReturn,
+  CustomerReturnParcel,
+} from "../services/allegro/types/index.js";
+import { summarizeList } from "../utils/formatting.js";
+import { moneySchema } from "../utils/money.js";
+import { createCursor, parseCursor } from "../utils/pagination.js";
+import { defineTool } from "./types.js";
+
+export const customerReturnStatuses = [
+  "CREATED",
+  "DISPATCHED",
+  "IN_TRANSIT",
+  "DELIVERED",
+  "FINISHED",
+  "FINISHED_APT",
+  "REJECTED",
+  "COMMISSION_REFUND_CLAIMED",
+  "COMMISSION_REFUNDED",
+  "WAREHOUSE_DELIVERED",
+  "WAREHOUSE_VERIFICATION",
+] as const;
+
+export const listCustomerReturnsInputSchema = z.object({
+  status: z
+    .array(z.enum(customerReturnStatuses))
+    .optional()
+    .describe("Return statuses to include"),
+  orderId: z.string().optional().describe("Checkout form id"),
+  buyerLogin: z.string().min(1).optional().describe("Buyer's Allegro login"),
+  referenceNumber: z
+    .string()
+    .optional()
+    .describe("Return reference number shown to the buyer"),
+  createdFrom: z
+    .string()
+    .datetime({ offset: true })
+    .optional()
+    .describe("Created at or after (ISO 8601)"),
+  createdTo: z
+    .string()
+    .datetime({ offset: true })
+    .optional()
+    .describe("Created at or before (ISO 8601)"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe("Page size (default 25)"),
+  cursor: z.string().optional().describe("Cursor from a previous page"),
+});
+
+export const returnRowSchema = z.object({
+  id: z.string(),
+  referenceNumber: z.string(),
+  orderId: z.string(),
+  buyer: z.string(),
+  status: z.enum(customerReturnStatuses),
+  createdAt: z.string(),
+  itemCount: z.number(),
+  value: moneySchema.nullable(),
+  reasons: z.array(z.string()),
+  carrierId: z.string().nullable(),
+  waybill: z.string().nullable(),
+});
+
+export type ReturnRow = z.infer<typeof returnRowSchema>;
+
+export function parcelWaybill(parcel: CustomerReturnParcel) {
+  return {
+    carrierId: parcel.transportingCarrierId ?? parcel.carrierId ?? null,
+    waybill: parcel.transportingWaybill ?? parcel.waybill ?? null,
+  };
+}
+
+export function toReturnRow(customerReturn: CustomerReturn): ReturnRow {
+  const { items } = customerReturn;
+  const currency = items[0]?.price.currency;
+  const value = items.reduce(
+    (sum, item) => sum + item.quantity * Number(item.price.amount),
+    0
+  );
+  const parcel = customerReturn.parcels?.at(-1);
+  return {
+    id: customerReturn.id,
+    referenceNumber: customerReturn.referenceNumber,
+    orderId: customerReturn.orderId,
+    buyer: customerReturn.buyer.login,
+    status: customerReturn.status,
+    createdAt: customerReturn.createdAt,
+    itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+    value: currency ? { amount: value.toFixed(2), currency } : null,
+    reasons: [
+      ...new Set(items.flatMap((i) => (i.reason ? [i.reason.type] : []))),
+    ],
+    ...(parcel ? parcelWaybill(parcel) : { carrierId: null, waybill: null }),
+  };
+}
+
+export function formatReturnRow(row: ReturnRow) {
+  const value = row.value ? `, ${row.value.amount} ${row.value.currency}` : "";
+  const reasons = row.reasons.length > 0 ? `, ${row.reasons.join("/")}` : "";
+  const parcel = row.waybill ? `, ${row.carrierId ?? "?"} ${row.waybill}` : "";
+  return `- **${row.referenceNumber}** (${row.id}) — ${row.status}, ${row.buyer}, order ${row.orderId}, ${row.itemCount} item(s)${value}${reasons}${parcel}`;
+}
+
+export const listCustomerReturnsTool = defineTool({
+  name: "list_customer_returns",
+  title: "List Customer Returns",
+  description:
+    "Browse customer returns by status, order, buyer, reference number and creation date, with returned value, reasons and the return parcel",
+  inputSchema: listCustomerReturnsInputSchema,
+  outputSchema: {
+    returns: z.array(returnRowSchema).describe("Returns on this page"),
+    count: z.number().describe("Number of returns on this page"),
+    nextCursor: z.string().optional().describe("Cursor for the next page"),
+  },
+  annotations: {
+    title: "List Customer Returns",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const limit = args.limit ?? 25;
+    const offset = parseCursor(args.cursor);
+    const { cursor: _cursor, limit: _limit, ...filters } = args;
+    const response = await listCustomerReturns(allegro, filters, {
+      limit,
+      offset,
+    });
+    const returns = response.customerReturns.map(toReturnRow);
+    const nextCursor =
+      returns.length === limit ? createCursor(offset + limit) : undefined;
+    const text = summarizeList(returns, formatReturnRow, {
+      title: "Customer returns",
+    });
+    return {
+      content: [
+        {
+          type: "text",
+          text: nextCursor ? `${text}\n\nNext cursor: ${nextCursor}` : text,
+        },
+      ],
+      structuredContent: { returns, count: returns.length, nextCursor },
+    };
+  },
+});
@@ -0,0 +1,86 @@
+import { z } from "zod";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import { getOrder } from "../services/allegro/orders.js";
+import { listDeliveryServices } from "../services/allegro/shipments.js";
+import { summarizeList } from "../utils/formatting.js";
+import { defineTool } from "./types.js";
+
+export const listDeliveryServicesInputSchema = z.object({
+  orderId: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Only show services matching this order's delivery method"),
+});
+
+export const listDeliveryServicesTool = defineTool({
+  name: "list_delivery_services",
+  title: "List Delivery Services",
+  description:
+    "List delivery services available for shipping with Allegro (Wysyłam z Allegro), optionally narrowed to the delivery method the buyer chose for an order",
+  inputSchema: listDeliveryServicesInputSchema,
+  outputSchema: {
+    orderDeliveryMethodId: z
+      .string()
+      .nullable()
+      .describe("Delivery method chosen by the buyer"),
+    services: z
+      .array(
+        z.object({
+          deliveryMethodId: z.string(),
+          credentialsId: z.string().nullable(),
+          name: z.string(),
+          carrierId: z.string(),
+          owner: z.string(),
+          packageTypes: z.array(z.string()),
+          additionalServices: z.array(z.string()),
+        })
+      )
+      .describe("Delivery services"),
+  },
+  annotations: {
+    title: "List Delivery Services",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const [{ services }, order] = await Promise.all([
+      listDeliveryServices(allegro),
+      args.orderId ? getOrder(allegro, args.orderId) : Promise.resolve(null),
+    ]);
+    const orderDeliveryMethodId = order?.delivery?.method.id ?? null;
+    const rows = services
+      .filter(
+        (service) =>
+          !order || service.id.deliveryMethodId === orderDeliveryMethodId
+      )
+      .map((service) => ({
+        deliveryMethodId: service.id.deliveryMethodId,
+        credentialsId: service.id.credentialsId ?? null,
+        name: service.name,
+        carrierId: service.carrierId,
+        owner: service.owner,
+        packageTypes: service.packageTypes ?? [],
+        additionalServices: (service.additionalServices ?? []).map(
+          (s) => s.name
+        ),
+      }));
+    const text = summarizeList(
+      rows,
+      (row) =>
+        `- **${row.name}** (${row.carrierId}) — method ${row.deliveryMethodId}${row.credentialsId ? `, credentials ${row.credentialsId}` : ""}`,
+      {
+        title: order
+          ? `Delivery Services for Order ${order.id}`
+          : "Delivery Services",
+      }
+    );
+    return {
+      content: [{ type: "text", text }],
+      structuredContent: { orderDeliveryMethodId, services: rows },
+    };
+  },
+});
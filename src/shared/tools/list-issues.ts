@@ -0,0 +1,157 @@
+import { z } from "zod";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import {
+  hoursUntil,
+  issueDeadline,
+  listIssues,
+  OPEN_ISSUE_STATUSES,
+} from "../services/allegro/issues.js";
+import type { Issue } from "../services/allegro/types/index.js";
+import { summarizeList } from "../utils/formatting.js";
+import { createCursor, parseCursor } from "../utils/pagination.js";
+import { defineTool } from "./types.js";
+
+export const issueStatuses = [
+  "DISPUTE_ONGOING",
+  "DISPUTE_CLOSED",
+  "DISPUTE_UNRESOLVED",
+  "CLAIM_SUBMITTED",
+  "CLAIM_ACCEPTED",
+  "CLAIM_REJECTED",
+] as const;
+
+export const listIssuesInputSchema = z.object({
+  status: z
+    .array(z.enum(issueStatuses))
+    .optional()
+    .describe(
+      "Issue statuses to include (default: DISPUTE_ONGOING, DISPUTE_UNRESOLVED, CLAIM_SUBMITTED)"
+    ),
+  type: z
+    .enum(["DISPUTE", "CLAIM"])
+    .optional()
+    .describe("Only disputes or only claims (complaints)"),
+  orderId: z.string().optional().describe("Checkout form id"),
+  buyerLogin: z.string().min(1).optional().describe("Buyer's Allegro login"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe("Page size (default 25)"),
+  cursor: z.string().optional().describe("Cursor from a previous page"),
+});
+
+export const issueRowSchema = z.object({
+  id: z.string(),
+  type: z.enum(["DISPUTE", "CLAIM"]),
+  status: z.enum(issueStatuses),
+  subject: z.string().nullable(),
+  buyer: z.string(),
+  orderId: z.string().nullable(),
+  offerId: z.string().nullable(),
+  offerName: z.string().nullable(),
+  expectations: z.array(z.string()),
+  createdAt: z.string(),
+  deadline: z.string().nullable(),
+  hoursLeft: z.number().nullable(),
+  lastMessage: z.string().nullable(),
+});
+
+export type IssueRow = z.infer<typeof issueRowSchema>;
+
+export function toIssueRow(issue: Issue, now = Date.now()): IssueRow {
+  const deadline = issueDeadline(issue);
+  return {
+    id: issue.id,
+    type: issue.type,
+    status: issue.currentState.status,
+    subject: issue.subject ?? null,
+    buyer: issue.buyer.login,
+    orderId: issue.checkoutForm?.id ?? null,
+    offerId: issue.offer?.id ?? null,
+    offerName: issue.offer?.name ?? null,
+    expectations: (issue.expectations ?? []).map((e) => e.type),
+    createdAt: issue.createdAt,
+    deadline,
+    hoursLeft: hoursUntil(deadline, now),
+    lastMessage: issue.chat?.lastMessage?.status ?? null,
+  };
+}
+
+export function formatIssueRow(row: IssueRow) {
+  const due =
+    row.hoursLeft === null
+      ? "no deadline"
+      : `due ${row.deadline} (${row.hoursLeft < 0 ? "overdue" : `${row.hoursLeft}h left`})`;
+  const expects =
+    row.expectations.length > 0
+      ? `, expects ${row.expectations.join("/")}`
+      : "";
+  return `- **${row.id}** — ${row.type} ${row.status}, ${row.buyer}${row.orderId ? `, order ${row.orderId}` : ""}${expects}, ${due}${row.lastMessage ? `, chat ${row.lastMessage}` : ""}`;
+}
+
+function byDeadline(a: IssueRow, b: IssueRow) {
+  if (a.deadline === b.deadline) {
+    return 0;
+  }
+  if (!a.deadline) {
+    return 1;
+  }
+  if (!b.deadline) {
+    return -1;
+  }
+  return a.deadline.localeCompare(b.deadline);
+}
+
+export const listIssuesTool = defineTool({
+  name: "list_issues",
+  title: "List Issues",
+  description:
+    "List post-purchase disputes and claims (complaints) with their response deadlines, most urgent first. Defaults to issues that still need the seller's attention",
+  inputSchema: listIssuesInputSchema,
+  outputSchema: {
+    issues: z.array(issueRowSchema).describe("Issues on this page"),
+    count: z.number().describe("Number of issues on this page"),
+    nextCursor: z.string().optional().describe("Cursor for the next page"),
+  },
+  annotations: {
+    title: "List Issues",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const limit = args.limit ?? 25;
+    const offset = parseCursor(args.cursor);
+    const response = await listIssues(
+      allegro,
+      {
+        status: args.status ?? OPEN_ISSUE_STATUSES,
+        type: args.type,
+        checkoutFormId: args.orderId,
+        buyerLogin: args.buyerLogin,
+      },
+      { limit, offset }
+    );
+    const now = Date.now();
+    const issues = response.issues
+      .map((issue) => toIssueRow(issue, now))
+      .sort(byDeadline);
+    const nextCursor =
+      issues.length === limit ? createCursor(offset + limit) : undefined;
+    const text = summarizeList(issues, formatIssueRow, { title: "Issues" });
+    return {
+      content: [
+        {
+          type: "text",
+          text: nextCursor ? `${text}\n\nNext cursor: ${nextCursor}` : text,
+        },
+      ],
+      structuredContent: { issues, count: issues.length, nextCursor },
+    };
+  },
+});
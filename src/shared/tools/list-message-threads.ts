@@ -0,0 +1,113 @@
+import { z } from "zod";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import {
+  listMessageThreads,
+  MESSAGE_THREADS_PAGE_SIZE,
+} from "../services/allegro/messaging.js";
+import type { MessageThread } from "../services/allegro/types/index.js";
+import { summarizeList } from "../utils/formatting.js";
+import { createCursor, parseCursor } from "../utils/pagination.js";
+import { defineTool } from "./types.js";
+
+const MAX_SCANNED_THREADS = 200;
+
+export const listMessageThreadsInputSchema = z.object({
+  unreadOnly: z
+    .boolean()
+    .optional()
+    .describe("Only return threads with unread messages (default true)"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(MESSAGE_THREADS_PAGE_SIZE)
+    .optional()
+    .describe("Page size (default 20)"),
+  cursor: z.string().optional().describe("Cursor from a previous page"),
+});
+
+const threadRowSchema = z.object({
+  id: z.string(),
+  read: z.boolean(),
+  interlocutor: z.string(),
+  lastMessageAt: z.string(),
+});
+
+function toThreadRow(thread: MessageThread) {
+  return {
+    id: thread.id,
+    read: thread.read,
+    interlocutor: thread.interlocutor.login,
+    lastMessageAt: thread.lastMessageDateTime,
+  };
+}
+
+export const listMessageThreadsTool = defineTool({
+  name: "list_message_threads",
+  title: "List Message Threads",
+  description:
+    "List buyer conversations from the Allegro message center, newest first. Returns only unread threads unless unreadOnly is false",
+  inputSchema: listMessageThreadsInputSchema,
+  outputSchema: {
+    threads: z.array(threadRowSchema).describe("Threads on this page"),
+    count: z.number().describe("Number of threads on this page"),
+    nextCursor: z.string().optional().describe("Cursor for the next page"),
+  },
+  annotations: {
+    title: "List Message Threads",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const unreadOnly = args.unreadOnly ?? true;
+    const limit = args.limit ?? MESSAGE_THREADS_PAGE_SIZE;
+    const start = parseCursor(args.cursor);
+    const threads: MessageThread[] = [];
+    let offset = start;
+    let exhausted = false;
+    while (threads.length < limit && offset - start < MAX_SCANNED_THREADS) {
+      const requested = unreadOnly
+        ? MESSAGE_THREADS_PAGE_SIZE
+        : limit - threads.length;
+      const page = await listMessageThreads(allegro, {
+        limit: requested,
+        offset,
+      });
+      let consumed = 0;
+      for (const thread of page.threads) {
+        if (threads.length === limit) {
+          break;
+        }
+        consumed += 1;
+        if (!(unreadOnly && thread.read)) {
+          threads.push(thread);
+        }
+      }
+      offset += consumed;
+      if (page.threads.length < requested) {
+        exhausted = consumed === page.threads.length;
+        break;
+      }
+    }
+    const rows = threads.map(toThreadRow);
+    const nextCursor = exhausted ? undefined : createCursor(offset);
+    const text = summarizeList(
+      rows,
+      (row) =>
+        `- **${row.id}** — ${row.interlocutor}, last message ${row.lastMessageAt}${row.read ? "" : " (unread)"}`,
+      { title: unreadOnly ? "Unread threads" : "Message threads" }
+    );
+    return {
+      content: [
+        {
+          type: "text",
+          text: nextCursor ? `${text}\n\nNext cursor: ${nextCursor}` : text,
+        },
+      ],
+      structuredContent: { threads: rows, count: rows.length, nextCursor },
+    };
+  },
+});
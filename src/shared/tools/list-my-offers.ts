@@ -0,0 +1,102 @@
+import { z } from "zod";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import { searchOffers } from "../services/allegro/offers.js";
+import type { OfferListItem } from "../services/allegro/types/index.js";
+import { summarizeList } from "../utils/formatting.js";
+import { createCursor, parseCursor } from "../utils/pagination.js";
+import { defineTool } from "./types.js";
+
+export const offerFiltersSchema = z.object({
+  name: z.string().min(1).optional().describe("Phrase to search in titles"),
+  priceFrom: z.number().min(0).optional().describe("Minimum buy-now price"),
+  priceTo: z.number().min(0).optional().describe("Maximum buy-now price"),
+  status: z
+    .array(z.enum(["INACTIVE", "ACTIVATING", "ACTIVE", "ENDED"]))
+    .optional()
+    .describe("Publication statuses to include"),
+  categoryId: z.string().optional().describe("Allegro category id"),
+  stockFrom: z.number().int().min(0).optional().describe("Minimum stock"),
+  stockTo: z.number().int().min(0).optional().describe("Maximum stock"),
+  sellingFormat: z
+    .enum(["BUY_NOW", "AUCTION", "ADVERTISEMENT"])
+    .optional()
+    .describe("Selling mode format"),
+  externalId: z.string().optional().describe("Seller's external offer id"),
+});
+
+export const listMyOffersInputSchema = offerFiltersSchema.extend({
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(1000)
+    .optional()
+    .describe("Page size (default 50)"),
+  cursor: z.string().optional().describe("Cursor from a previous page"),
+});
+
+function formatPrice(offer: OfferListItem) {
+  const price = offer.sellingMode.price;
+  return price ? `${price.amount} ${price.currency}` : "—";
+}
+
+export const listMyOffersTool = defineTool({
+  name: "list_my_offers",
+  title: "List My Offers",
+  description:
+    "Search the seller's own Allegro offers by name, price, status, category, stock, selling mode or external id",
+  inputSchema: listMyOffersInputSchema,
+  outputSchema: {
+    offers: z
+      .array(z.object({ id: z.string(), name: z.string() }).passthrough())
+      .describe("Offers on this page as returned by Allegro"),
+    count: z.number().describe("Number of offers on this page"),
+    totalCount: z.number().describe("Total number of matching offers"),
+    nextCursor: z.string().optional().describe("Cursor for the next page"),
+  },
+  annotations: {
+    title: "List My Offers",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const limit = args.limit ?? 50;
+    const offset = parseCursor(args.cursor);
+    const { cursor: _cursor, limit: _limit, ...filters } = args;
+    const response = await searchOffers(allegro, filters, { limit, offset });
+    const nextOffset = offset + response.offers.length;
+    const nextCursor =
+      response.offers.length > 0 && nextOffset < response.totalCount
+        ? createCursor(nextOffset)
+        : undefined;
+    const text = summarizeList(
+      response.offers,
+      (offer) =>
+        `- **${offer.name}** (${offer.id}) — ${formatPrice(offer)}, stock ${offer.stock.available}, ${offer.publication.status}`,
+      { title: "My Offers" }
+    );
+    const footer = [
+      `Total matching offers: ${response.totalCount}`,
+      nextCursor ? `Next cursor: ${nextCursor}` : undefined,
+    ]
+      .filter(Boolean)
+      .join("\n");
+    return {
+      content: [
+        {
+          type: "text",
+          text: `${text}\n\n${footer}`,
+        },
+      ],
+      structuredContent: {
+        offers: response.offers,
+        count: response.offers.length,
+        totalCount: response.totalCount,
+        nextCursor,
+      },
+    };
+  },
+});
@@ -0,0 +1,214 @@
+import { z } from "zod";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import { searchOrders } from "../services/allegro/orders.js";
+import type { CheckoutForm } from "../services/allegro/types/index.js";
+import { summarizeList } from "../utils/formatting.js";
+import { moneySchema } from "../utils/money.js";
+import { createCursor, parseCursor } from "../utils/pagination.js";
+import { defineTool } from "./types.js";
+
+export const checkoutFormStatuses = [
+  "BOUGHT",
+  "FILLED_IN",
+  "READY_FOR_PROCESSING",
+  "CANCELLED",
+] as const;
+
+export const fulfillmentStatuses = [
+  "NEW",
+  "PROCESSING",
+  "READY_FOR_SHIPMENT",
+  "READY_FOR_PICKUP",
+  "SENT",
+  "PICKED_UP",
+  "CANCELLED",
+  "SUSPENDED",
+  "RETURNED",
+] as const;
+
+export const listOrdersInputSchema = z.object({
+  status: z
+    .array(z.enum(checkoutFormStatuses))
+    .optional()
+    .describe("Checkout form statuses to include"),
+  fulfillmentStatus: z
+    .array(z.enum(fulfillmentStatuses))
+    .optional()
+    .describe("Seller fulfillment statuses to include"),
+  buyerLogin: z.string().min(1).optional().describe("Buyer's Allegro login"),
+  boughtFrom: z
+    .string()
+    .datetime({ offset: true })
+    .optional()
+    .describe("Bought at or after (ISO 8601)"),
+  boughtTo: z
+    .string()
+    .datetime({ offset: true })
+    .optional()
+    .describe("Bought at or before (ISO 8601)"),
+  updatedFrom: z
+    .string()
+    .datetime({ offset: true })
+    .optional()
+    .describe("Updated at or after (ISO 8601)"),
+  updatedTo: z
+    .string()
+    .datetime({ offset: true })
+    .optional()
+    .describe("Updated at or before (ISO 8601)"),
+  marketplaceId: z
+    .string()
+    .optional()
+    .describe("Marketplace id, e.g. allegro-pl"),
+  deliveryMethodId: z.string().optional().describe("Delivery method id"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe("Page size (default 25)"),
+  cursor: z.string().optional().describe("Cursor from a previous page"),
+});
+
+export const orderRowSchema = z.object({
+  id: z.string(),
+  status: z.enum(checkoutFormStatuses),
+  fulfillmentStatus: z.enum(fulfillmentStatuses).nullable(),
+  buyer: z.object({
+    id: z.string(),
+    login: z.string(),
+    email: z.string(),
+  }),
+  totalToPay: moneySchema,
+  payment: z
+    .object({
+      type: z.string(),
+      paidAmount: moneySchema.nullable(),
+      finishedAt: z.string().nullable(),
+    })
+    .nullable(),
+  delivery: z
+    .object({
+      methodId: z.string(),
+      methodName: z.string().nullable(),
+      pickupPointId: z.string().nullable(),
+    })
+    .nullable(),
+  lineItems: z.array(
+    z.object({
+      id: z.string(),
+      offerId: z.string(),
+      offerName: z.string(),
+      quantity: z.number(),
+      price: moneySchema,
+    })
+  ),
+  marketplaceId: z.string().nullable(),
+  boughtAt: z.string().nullable(),
+  updatedAt: z.string(),
+  revision: z.string(),
+});
+
+export type OrderRow = z.infer<typeof orderRowSchema>;
+
+export function toOrderRow(form: CheckoutForm): OrderRow {
+  return {
+    id: form.id,
+    status: form.status,
+    fulfillmentStatus: form.fulfillment?.status ?? null,
+    buyer: {
+      id: form.buyer.id,
+      login: form.buyer.login,
+      email: form.buyer.email,
+    },
+    totalToPay: form.summary.totalToPay,
+    payment: form.payment
+      ? {
+          type: form.payment.type,
+          paidAmount: form.payment.paidAmount ?? null,
+          finishedAt: form.payment.finishedAt ?? null,
+        }
+      : null,
+    delivery: form.delivery
+      ? {
+          methodId: form.delivery.method.id,
+          methodName: form.delivery.method.name ?? null,
+          pickupPointId: form.delivery.pickupPoint?.id ?? null,
+        }
+      : null,
+    lineItems: form.lineItems.map((item) => ({
+      id: item.id,
+      offerId: item.offer.id,
+      offerName: item.offer.name,
+      quantity: item.quantity,
+      price: item.price,
+    })),
+    marketplaceId: form.marketplace?.id ?? null,
+    boughtAt: form.lineItems[0]?.boughtAt ?? null,
+    updatedAt: form.updatedAt,
+    revision: form.revision,
+  };
+}
+
+function formatOrderRow(row: OrderRow) {
+  const items = row.lineItems.reduce((sum, item) => sum + item.quantity, 0);
+  const paid = row.payment?.finishedAt ? "paid" : "unpaid";
+  const status = row.fulfillmentStatus ?? row.status;
+  return `- **${row.id}** — ${row.buyer.login}, ${items} item(s), ${row.totalToPay.amount} ${row.totalToPay.currency}, ${paid}, ${status}${row.delivery?.methodName ? `, ${row.delivery.methodName}` : ""}`;
+}
+
+export const listOrdersTool = defineTool({
+  name: "list_orders",
+  title: "List Orders",
+  description:
+    "Browse Allegro orders (checkout forms) by status, fulfillment status, buyer login, purchase or update dates, marketplace and delivery method",
+  inputSchema: listOrdersInputSchema,
+  outputSchema: {
+    orders: z.array(orderRowSchema).describe("Orders on this page"),
+    count: z.number().describe("Number of orders on this page"),
+    totalCount: z.number().describe("Total number of matching orders"),
+    nextCursor: z.string().optional().describe("Cursor for the next page"),
+  },
+  annotations: {
+    title: "List Orders",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const limit = args.limit ?? 25;
+    const offset = parseCursor(args.cursor);
+    const { cursor: _cursor, limit: _limit, ...filters } = args;
+    const response = await searchOrders(allegro, filters, { limit, offset });
+    const orders = response.checkoutForms.map(toOrderRow);
+    const nextOffset = offset + orders.length;
+    const nextCursor =
+      orders.length > 0 && nextOffset < response.totalCount
+        ? createCursor(nextOffset)
+        : undefined;
+    const text = summarizeList(orders, formatOrderRow, { title: "Orders" });
+    const footer = [
+      `Total matching orders: ${response.totalCount}`,
+      nextCursor ? `Next cursor: ${nextCursor}` : undefined,
+    ]
+      .filter(Boolean)
+      .join("\n");
+    return {
+      content: [
+        {
+          type: "text",
+          text: `${text}\n\n${footer}`,
+        },
+      ],
+      structuredContent: {
+        orders,
+        count: orders.length,
+        totalCount: response.totalCount,
+        nextCursor,
+      },
+    };
+  },
+});
@@ -0,0 +1,425 @@
+import { z } from "zod";
+import type { AllegroClient } from "../services/allegro/client.js";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import { getOrder, searchOrders } from "../services/allegro/orders.js";
+import {
+  collectPaymentOperations,
+  type PaymentOperationFilters,
+} from "../services/allegro/payments.js";
+import type {
+  CheckoutForm,
+  PaymentOperation,
+} from "../services/allegro/types/index.js";
+import { toTimestamp } from "../utils/dates.js";
+import { moneySchema, roundMoney, sumMoney } from "../utils/money.js";
+import { createProgressReporter } from "../utils/progress.js";
+import { defineTool, invalidInput, toolError } from "./types.js";
+
+const DEFAULT_RANGE_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_LISTED_OPERATIONS = 100;
+const AMOUNT_TOLERANCE = 0.005;
+const MAX_RECONCILED_OPERATIONS = 1000;
+const MAX_PAYMENT_ORDERS = 100;
+
+const operationCategories = [
+  "income",
+  "refund",
+  "payout",
+  "fee",
+  "other",
+] as const;
+
+type OperationCategory = (typeof operationCategories)[number];
+
+export const listPaymentOperationsInputSchema = z.object({
+  walletType: z
+    .enum(["AVAILABLE", "WAITING"])
+    .optional()
+    .describe("Wallet: AVAILABLE funds or WAITING (not yet released)"),
+  paymentOperator: z
+    .enum(["PAYU", "P24", "AF", "AF_PAYU", "AF_P24"])
+    .optional()
+    .describe("Payment operator of the wallet"),
+  groups: z
+    .array(z.enum(["INCOME", "OUTCOME", "REFUND", "BLOCKADE"]))
+    .optional()
+    .describe("Operation groups to include"),
+  from: z
+    .string()
+    .optional()
+    .describe("Start date or ISO timestamp (default: 30 days ago)"),
+  to: z
+    .string()
+    .optional()
+    .describe("End date or ISO timestamp (default: now)"),
+  marketplaceId: z
+    .string()
+    .optional()
+    .describe("Marketplace, e.g. allegro-pl or allegro-cz"),
+  currency: z.string().length(3).optional().describe("Currency, e.g. PLN"),
+  orderId: z
+    .string()
+    .optional()
+    .describe("Reconcile this order's payment against its operations"),
+  paymentId: z
+    .string()
+    .optional()
+    .describe("Only operations for this payment id"),
+  maxOperations: z
+    .number()
+    .int()
+    .min(1)
+    .max(5000)
+    .optional()
+    .describe("Maximum number of operations to fetch (default 500)"),
+});
+
+const summarySchema = z.object({
+  category: z.enum(operationCategories),
+  currency: z.string(),
+  amount: z.number(),
+  count: z.number(),
+});
+
+const reconciliationSchema = z.object({
+  paymentId: z.string(),
+  orderId: z.string().nullable(),
+  orderTotal: moneySchema.nullable(),
+  paidAmount: moneySchema.nullable(),
+  paymentOrderIds: z
+    .array(z.string())
+    .describe("Orders paid with this payment"),
+  paymentTotal: moneySchema
+    .nullable()
+    .describe("Amount paid for all orders in the payment"),
+  received: z.number(),
+  refunded: z.number(),
+  net: z.number(),
+  status: z.enum([
+    "PENDING",
+    "SETTLED",
+    "PARTIALLY_REFUNDED",
+    "REFUNDED",
+    "MISMATCH",
+  ]),
+});
+
+type Reconciliation = z.infer<typeof reconciliationSchema>;
+
+function categorize(operation: PaymentOperation): OperationCategory {
+  if (operation.type.startsWith("PAYOUT")) {
+    return "payout";
+  }
+  switch (operation.group) {
+    case "INCOME":
+      return "income";
+    case "REFUND":
+      return "refund";
+    case "OUTCOME":
+      return "fee";
+    default:
+      return "other";
+  }
+}
+
+function sumAmounts(operations: PaymentOperation[]) {
+  return sumMoney(operations.map((o) => Number(o.value.amount)));
+}
+
+function summarize(operations: PaymentOperation[]) {
+  const groups = new Map<string, z.infer<typeof summarySchema>>();
+  for (const operation of operations) {
+    const category = categorize(operation);
+    const { currency } = operation.value;
+    const key = `${category}|${currency}`;
+    const current = groups.get(key) ?? {
+      category,
+      currency,
+      amount: 0,
+      count: 0,
+    };
+    current.amount = roundMoney(
+      current.amount + Number(operation.value.amount)
+    );
+    current.count += 1;
+    groups.set(key, current);
+  }
+  return [...groups.values()].sort(
+    (a, b) =>
+      operationCategories.indexOf(a.category) -
+      operationCategories.indexOf(b.category)
+  );
+}
+
+function reconcileStatus(
+  received: number,
+  refunded: number,
+  expected: number | undefined
+): Reconciliation["status"] {
+  if (received === 0) {
+    return "PENDING";
+  }
+  if (
+    expected !== undefined &&
+    Math.abs(received - expected) > AMOUNT_TOLERANCE
+  ) {
+    return "MISMATCH";
+  }
+  if (refunded >= received - AMOUNT_TOLERANCE) {
+    return "REFUNDED";
+  }
+  return refunded > 0 ? "PARTIALLY_REFUNDED" : "SETTLED";
+}
+
+function paymentTotal(orders: CheckoutForm[]) {
+  const amounts = orders.map(
+    (o) => o.payment?.paidAmount ?? o.summary.totalToPay
+  );
+  const currency = amounts[0]?.currency;
+  if (!currency || amounts.some((a) => a.currency !== currency)) {
+    return null;
+  }
+  return {
+    amount: sumMoney(amounts.map((a) => Number(a.amount))).toFixed(2),
+    currency,
+  };
+}
+
+function reconcile(
+  paymentId: string,
+  order: CheckoutForm | undefined,
+  paymentOrders: CheckoutForm[],
+  operations: PaymentOperation[]
+): Reconciliation {
+  const forPayment = operations.filter((o) => o.payment?.id === paymentId);
+  const received = sumAmounts(forPayment.filter((o) => o.group === "INCOME"));
+  const refunded = Math.abs(
+    sumAmounts(forPayment.filter((o) => o.group === "REFUND"))
+  );
+  const paidAmount = order?.payment?.paidAmount ?? null;
+  const orderTotal = order?.summary.totalToPay ?? null;
+  const total = paymentTotal(paymentOrders);
+  return {
+    paymentId,
+    orderId: order?.id ?? null,
+    orderTotal,
+    paidAmount,
+    paymentOrderIds: paymentOrders.map((o) => o.id),
+    paymentTotal: total,
+    received,
+    refunded,
+    net: sumAmounts(forPayment),
+    status: reconcileStatus(
+      received,
+      refunded,
+      total ? Number(total.amount) : undefined
+    ),
+  };
+}
+
+function isNarrowed(filters: PaymentOperationFilters) {
+  return Object.entries(filters).some(
+    ([key, value]) => key !== "paymentId" && value !== undefined
+  );
+}
+
+async function loadPaymentOrders(
+  allegro: AllegroClient,
+  paymentId: string,
+  order: CheckoutForm | undefined
+) {
+  const { checkoutForms } = await searchOrders(
+    allegro,
+    { paymentId },
+    { limit: MAX_PAYMENT_ORDERS, offset: 0 }
+  );
+  return order && !checkoutForms.some((o) => o.id === order.id)
+    ? [order, ...checkoutForms]
+    : checkoutForms;
+}
+
+async function loadPaymentForReconciliation(
+  allegro: AllegroClient,
+  paymentId: string,
+  signal?: AbortSignal
+) {
+  const { operations } = await collectPaymentOperations(
+    allegro,
+    { paymentId },
+    { maxOperations: MAX_RECONCILED_OPERATIONS, signal }
+  );
+  return operations;
+}
+
+function resolveRange(
+  args: z.infer<typeof listPaymentOperationsInputSchema>,
+  forPayment: boolean
+) {
+  const to = args.to ? toTimestamp(args.to, true) : undefined;
+  const from = args.from ? toTimestamp(args.from, false) : undefined;
+  if (forPayment) {
+    return { from, to };
+  }
+  const end = to ?? new Date().toISOString();
+  return {
+    from:
+      from ??
+      new Date(Date.parse(end) - DEFAULT_RANGE_DAYS * DAY_MS).toISOString(),
+    to: end,
+  };
+}
+
+function toOperationRow(operation: PaymentOperation) {
+  return {
+    occurredAt: operation.occurredAt,
+    type: operation.type,
+    group: operation.group,
+    category: categorize(operation),
+    amount: Number(operation.value.amount),
+    currency: operation.value.currency,
+    walletType: operation.wallet.type,
+    paymentId: operation.payment?.id ?? null,
+    participantLogin: operation.participant?.login ?? null,
+    balance: Number(operation.wallet.balance.amount),
+  };
+}
+
+function formatReconciliation(r: Reconciliation) {
+  const orders = r.paymentOrderIds.length;
+  return [
+    `### Reconciliation for payment ${r.paymentId}${r.orderId ? ` (order ${r.orderId})` : ""}`,
+    `- Status: ${r.status}`,
+    ...(r.paymentTotal
+      ? [
+          `- Paid by buyer: ${r.paymentTotal.amount} ${r.paymentTotal.currency}${orders > 1 ? ` for ${orders} orders` : ""}`,
+        ]
+      : []),
+    `- Received: ${r.received.toFixed(2)}`,
+    `- Refunded: ${r.refunded.toFixed(2)}`,
+    `- Net: ${r.net.toFixed(2)}`,
+  ].join("\n");
+}
+
+export const listPaymentOperationsTool = defineTool({
+  name: "list_payment_operations",
+  title: "List Payment Operations",
+  description:
+    "List Allegro Finanse balance movements filtered by wallet, operation group, dates and marketplace, summarized into incomes, refunds, payouts and fees. Pass orderId or paymentId to reconcile a payment against all of its operations, regardless of the other filters; the amount received is compared with the total of every order paid with that payment",
+  inputSchema: listPaymentOperationsInputSchema,
+  outputSchema: {
+    from: z.string().nullable().describe("Start of the range"),
+    to: z.string().nullable().describe("End of the range"),
+    operationCount: z.number().describe("Number of operations fetched"),
+    totalCount: z.number().describe("Total number of matching operations"),
+    summary: z
+      .array(summarySchema)
+      .describe("Totals per category and currency"),
+    operations: z
+      .array(
+        z.object({
+          occurredAt: z.string(),
+          type: z.string(),
+          group: z.string(),
+          category: z.enum(operationCategories),
+          amount: z.number(),
+          currency: z.string(),
+          walletType: z.string(),
+          paymentId: z.string().nullable(),
+          participantLogin: z.string().nullable(),
+          balance: z.number(),
+        })
+      )
+      .describe(`Most recent ${MAX_LISTED_OPERATIONS} operations`),
+    reconciliation: reconciliationSchema
+      .nullable()
+      .describe("Payment reconciliation when orderId or paymentId is given"),
+  },
+  annotations: {
+    title: "List Payment Operations",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const order = args.orderId
+      ? await getOrder(allegro, args.orderId)
+      : undefined;
+    if (order && args.paymentId && order.payment?.id !== args.paymentId) {
+      return invalidInput(
+        `payment ${args.paymentId} does not belong to order ${order.id}${order.payment?.id ? ` (its payment is ${order.payment.id})` : ""}`
+      );
+    }
+    const paymentId = args.paymentId ?? order?.payment?.id;
+    if (order && !paymentId) {
+      return toolError(`Order ${order.id} has no payment to reconcile`);
+    }
+    const range = resolveRange(args, Boolean(paymentId));
+    const progress = context.server
+      ? createProgressReporter(context.server, context.meta?.progressToken)
+      : null;
+    const filters: PaymentOperationFilters = {
+      walletType: args.walletType,
+      paymentOperator: args.paymentOperator,
+      group: args.groups,
+      marketplaceId: args.marketplaceId,
+      currency: args.currency,
+      paymentId,
+      ...range,
+    };
+    const { operations, totalCount } = await collectPaymentOperations(
+      allegro,
+      filters,
+      {
+        maxOperations: args.maxOperations ?? 500,
+        signal: context.signal,
+        onPage: (fetched, total) =>
+          progress?.report(
+            fetched,
+            total,
+            `Fetched ${fetched} of ${total} operations`
+          ),
+      }
+    );
+    const summary = summarize(operations);
+    const paymentOperations =
+      paymentId && (isNarrowed(filters) || operations.length < totalCount)
+        ? await loadPaymentForReconciliation(allegro, paymentId, context.signal)
+        : operations;
+    const reconciliation = paymentId
+      ? reconcile(
+          paymentId,
+          order,
+          await loadPaymentOrders(allegro, paymentId, order),
+          paymentOperations
+        )
+      : null;
+    const text = [
+      `## Payment operations (${operations.length} of ${totalCount})`,
+      "",
+      ...(summary.length > 0
+        ? summary.map(
+            (s) =>
+              `- ${s.category}: ${s.amount.toFixed(2)} ${s.currency} in ${s.count} operations`
+          )
+        : ["No operations found."]),
+      ...(reconciliation ? ["", formatReconciliation(reconciliation)] : []),
+    ].join("\n");
+    return {
+      content: [{ type: "text", text }],
+      structuredContent: {
+        from: range.from ?? null,
+        to: range.to ?? null,
+        operationCount: operations.length,
+        totalCount,
+        summary,
+        operations: operations
+          .slice(0, MAX_LISTED_OPERATIONS)
+          .map(toOperationRow),
+        reconciliation,
+      },
+    };
+  },
+});
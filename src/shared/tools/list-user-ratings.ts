@@ -0,0 +1,144 @@
+import { z } from "zod";
+import { getCurrentUser } from "../services/allegro/accounts.js";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import { scanUserRatings } from "../services/allegro/ratings.js";
+import type { UserRating } from "../services/allegro/types/index.js";
+import { summarizeList } from "../utils/formatting.js";
+import { createCursor, parseCursor } from "../utils/pagination.js";
+import { defineTool } from "./types.js";
+
+export const listUserRatingsInputSchema = z.object({
+  recommended: z
+    .boolean()
+    .optional()
+    .describe("true for recommending ratings, false for negative ones"),
+  unansweredOnly: z
+    .boolean()
+    .optional()
+    .describe(
+      "Only ratings without a seller answer; further ratings are scanned to fill the page"
+    ),
+  changedFrom: z
+    .string()
+    .datetime({ offset: true })
+    .optional()
+    .describe("Changed at or after (ISO 8601)"),
+  changedTo: z
+    .string()
+    .datetime({ offset: true })
+    .optional()
+    .describe("Changed at or before (ISO 8601)"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe("Page size (default 25)"),
+  cursor: z.string().optional().describe("Cursor from a previous page"),
+});
+
+const ratesSchema = z.object({
+  delivery: z.number().nullable(),
+  deliveryCost: z.number().nullable(),
+  description: z.number().nullable(),
+  service: z.number().nullable(),
+});
+
+export const ratingRowSchema = z.object({
+  id: z.string(),
+  createdAt: z.string(),
+  buyer: z.string(),
+  recommended: z.boolean(),
+  rates: ratesSchema,
+  comment: z.string().nullable(),
+  orderId: z.string().nullable(),
+  answer: z.string().nullable(),
+  removalStatus: z.string().nullable(),
+  excludedFromAverage: z.boolean(),
+});
+
+export type RatingRow = z.infer<typeof ratingRowSchema>;
+
+export function toRatingRow(rating: UserRating): RatingRow {
+  return {
+    id: rating.id,
+    createdAt: rating.createdAt,
+    buyer: rating.buyer.login,
+    recommended: rating.recommended,
+    rates: {
+      delivery: rating.rates?.delivery ?? null,
+      deliveryCost: rating.rates?.deliveryCost ?? null,
+      description: rating.rates?.description ?? null,
+      service: rating.rates?.service ?? null,
+    },
+    comment: rating.comment ?? null,
+    orderId: rating.order?.id ?? null,
+    answer: rating.answer?.message ?? null,
+    removalStatus:
+      rating.removal?.status ?? (rating.removal?.request ? "REQUESTED" : null),
+    excludedFromAverage: rating.excludedFromAverageRates ?? false,
+  };
+}
+
+export function formatRatingRow(row: RatingRow) {
+  const rates = Object.entries(row.rates)
+    .filter(([, value]) => value !== null)
+    .map(([name, value]) => `${name} ${value}`)
+    .join(", ");
+  return [
+    `- **${row.id}** — ${row.recommended ? "recommended" : "negative"}, ${row.buyer}, ${row.createdAt}${rates ? ` (${rates})` : ""}${row.removalStatus ? `, removal ${row.removalStatus}` : ""}`,
+    ...(row.comment ? [`  > ${row.comment}`] : []),
+    ...(row.answer ? [`  Answer: ${row.answer}`] : []),
+  ].join("\n");
+}
+
+export const listUserRatingsTool = defineTool({
+  name: "list_user_ratings",
+  title: "List User Ratings",
+  description:
+    "List buyers' ratings of the seller, newest first, filtered by recommended/negative and change date, with detailed rates, comments and seller answers",
+  inputSchema: listUserRatingsInputSchema,
+  outputSchema: {
+    ratings: z.array(ratingRowSchema).describe("Ratings on this page"),
+    count: z.number().describe("Number of ratings on this page"),
+    nextCursor: z.string().optional().describe("Cursor for the next page"),
+  },
+  annotations: {
+    title: "List User Ratings",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const limit = args.limit ?? 25;
+    const offset = parseCursor(args.cursor);
+    const user = await getCurrentUser(allegro);
+    const page = await scanUserRatings(
+      allegro,
+      user.id,
+      {
+        recommended: args.recommended,
+        changedFrom: args.changedFrom,
+        changedTo: args.changedTo,
+      },
+      { limit, offset },
+      (rating) => !(args.unansweredOnly && rating.answer)
+    );
+    const ratings = page.ratings.map(toRatingRow);
+    const nextCursor =
+      page.nextOffset === undefined ? undefined : createCursor(page.nextOffset);
+    const text = summarizeList(ratings, formatRatingRow, { title: "Ratings" });
+    return {
+      content: [
+        {
+          type: "text",
+          text: nextCursor ? `${text}\n\nNext cursor: ${nextCursor}` : text,
+        },
+      ],
+      structuredContent: { ratings, count: ratings.length, nextCursor },
+    };
+  },
+});
@@ -0,0 +1,79 @@
+import { z } from "zod";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import {
+  postIssueMessage,
+  uploadIssueAttachment,
+} from "../services/allegro/issues.js";
+import {
+  attachmentInputSchema,
+  decodeAttachment,
+} from "../utils/attachments.js";
+import { defineTool, invalidInput } from "./types.js";
+
+const MAX_ISSUE_MESSAGE_LENGTH = 4000;
+
+export const postIssueMessageInputSchema = z.object({
+  issueId: z.string().min(1).describe("Dispute or claim id"),
+  text: z
+    .string()
+    .min(1)
+    .max(MAX_ISSUE_MESSAGE_LENGTH)
+    .describe("Message shown to the buyer"),
+  attachment: attachmentInputSchema
+    .optional()
+    .describe("File to attach, e.g. a photo or a shipping receipt"),
+  requestClosure: z
+    .boolean()
+    .optional()
+    .describe("Ask the buyer to close the dispute with this message"),
+});
+
+export const postIssueMessageTool = defineTool({
+  name: "post_issue_message",
+  title: "Post Issue Message",
+  description:
+    "Post a message in a dispute or claim chat, optionally with an image or PDF attachment, or ask the buyer to close the dispute",
+  inputSchema: postIssueMessageInputSchema,
+  outputSchema: {
+    issueId: z.string().describe("Dispute or claim id"),
+    messageId: z.string().describe("Id of the posted message"),
+    createdAt: z.string().describe("When the message was posted"),
+    attachmentId: z.string().nullable().describe("Uploaded attachment id"),
+  },
+  annotations: {
+    title: "Post Issue Message",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const decoded = args.attachment ? decodeAttachment(args.attachment) : null;
+    if (decoded?.problem) {
+      return invalidInput(decoded.problem);
+    }
+    const attachment = decoded?.file
+      ? await uploadIssueAttachment(allegro, decoded.file)
+      : null;
+    const message = await postIssueMessage(allegro, args.issueId, {
+      text: args.text,
+      type: args.requestClosure ? "END_REQUEST" : "REGULAR",
+      ...(attachment && { attachment: { id: attachment.id } }),
+    });
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Message ${message.id} posted to issue ${args.issueId}${attachment ? " with 1 attachment" : ""}${args.requestClosure ? "; the buyer was asked to close the dispute" : ""}.`,
+        },
+      ],
+      structuredContent: {
+        issueId: args.issueId,
+        messageId: message.id,
+        createdAt: message.createdAt,
+        attachmentId: attachment?.id ?? null,
+      },
+    };
+  },
+});
@@ -0,0 +1,221 @@
+import { z } from "zod";
+import type { AllegroClient } from "../services/allegro/client.js";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import {
+  changeIssueStatus,
+  getIssue,
+  OPEN_ISSUE_STATUSES,
+  postIssueMessage,
+} from "../services/allegro/issues.js";
+import { getOrder } from "../services/allegro/orders.js";
+import type {
+  Issue,
+  IssueStatusChange,
+  Money,
+} from "../services/allegro/types/index.js";
+import { createAuditRecorder, withAudit } from "../services/audit.js";
+import {
+  clientSupportsFormElicitation,
+  confirm,
+} from "../utils/elicitation.js";
+import { defineTool, invalidInput } from "./types.js";
+
+const RESOLUTION_ACTION = "propose_issue_resolution";
+const MAX_PROPOSAL_MESSAGE_LENGTH = 3800;
+
+const RESOLUTION_EXPECTATIONS = {
+  REFUND: "REFUND",
+  PARTIAL_REFUND: "PARTIAL_REFUND",
+  REPLACEMENT: "EXCHANGE",
+  REPAIR: "REPAIR",
+} as const;
+
+const RESOLUTION_LABELS = {
+  REFUND: "full refund",
+  PARTIAL_REFUND: "partial refund",
+  REPLACEMENT: "replacement",
+  REPAIR: "repair",
+} as const;
+
+export const proposeIssueResolutionInputSchema = z.object({
+  issueId: z.string().min(1).describe("Dispute or claim id"),
+  resolution: z
+    .enum(["REFUND", "PARTIAL_REFUND", "REPLACEMENT", "REPAIR"])
+    .describe("What the seller offers"),
+  refundAmount: z
+    .number()
+    .positive()
+    .optional()
+    .describe("Amount for PARTIAL_REFUND, in the order currency"),
+  message: z
+    .string()
+    .min(1)
+    .max(MAX_PROPOSAL_MESSAGE_LENGTH)
+    .describe(
+      "Message shown to the buyer; for disputes it follows the proposal line in the chat"
+    ),
+});
+
+type ProposeIssueResolutionArgs = z.infer<
+  typeof proposeIssueResolutionInputSchema
+>;
+
+async function resolveRefund(
+  allegro: AllegroClient,
+  issue: Issue,
+  args: ProposeIssueResolutionArgs
+): Promise<{ refund?: Money; problem?: string }> {
+  if (args.resolution !== "PARTIAL_REFUND") {
+    return {};
+  }
+  if (args.refundAmount === undefined) {
+    return { problem: "refundAmount is required for PARTIAL_REFUND" };
+  }
+  if (!issue.checkoutForm) {
+    return { problem: `Issue ${issue.id} is not linked to an order` };
+  }
+  const { totalToPay } = (await getOrder(allegro, issue.checkoutForm.id))
+    .summary;
+  if (args.refundAmount >= Number(totalToPay.amount)) {
+    return {
+      problem: `refundAmount must be below the order total of ${totalToPay.amount} ${totalToPay.currency}; use REFUND for a full refund`,
+    };
+  }
+  return {
+    refund: {
+      amount: args.refundAmount.toFixed(2),
+      currency: totalToPay.currency,
+    },
+  };
+}
+
+function describeProposal(args: ProposeIssueResolutionArgs, refund?: Money) {
+  const label = RESOLUTION_LABELS[args.resolution];
+  return refund ? `${label} of ${refund.amount} ${refund.currency}` : label;
+}
+
+function disputeMessage(proposal: string, message: string) {
+  return `Proposed resolution: ${proposal}.\n\n${message}`;
+}
+
+export const proposeIssueResolutionTool = defineTool({
+  name: "propose_issue_resolution",
+  title: "Propose Issue Resolution",
+  description:
+    "Offer the buyer a refund, partial refund, replacement or repair for a dispute or claim. Claims are accepted with the chosen resolution and refund amount. Allegro has no proposal endpoint for disputes, so for a dispute only a chat message is posted: a 'Proposed resolution' line followed by your message; nothing is refunded or changed until you act on the buyer's answer. Asks for confirmation first and returns a dry run when the client cannot confirm. Every attempt is written to the server log as an audit entry",
+  inputSchema: proposeIssueResolutionInputSchema,
+  outputSchema: {
+    issueId: z.string().describe("Dispute or claim id"),
+    type: z.enum(["DISPUTE", "CLAIM"]).describe("Issue type"),
+    resolution: z
+      .enum(["REFUND", "PARTIAL_REFUND", "REPLACEMENT", "REPAIR"])
+      .describe("Proposed resolution"),
+    refund: z
+      .object({ amount: z.string(), currency: z.string() })
+      .nullable()
+      .describe("Partial refund amount"),
+    status: z
+      .enum(["SUBMITTED", "CANCELLED", "DRY_RUN"])
+      .describe("What happened to the proposal"),
+    sentAs: z
+      .enum(["CLAIM_ACCEPTANCE", "CHAT_MESSAGE"])
+      .describe(
+        "How the proposal reaches the buyer: a structured claim acceptance or a dispute chat message"
+      ),
+    issueStatus: z.string().describe("Issue status after the call"),
+  },
+  annotations: {
+    title: "Propose Issue Resolution",
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const issue = await getIssue(allegro, args.issueId);
+    if (!OPEN_ISSUE_STATUSES.includes(issue.currentState.status)) {
+      return invalidInput(
+        `Issue ${issue.id} is ${issue.currentState.status} and can no longer be resolved`
+      );
+    }
+    const { refund, problem } = await resolveRefund(allegro, issue, args);
+    if (problem) {
+      return invalidInput(problem);
+    }
+    const proposal = describeProposal(args, refund);
+    const isDispute = issue.type === "DISPUTE";
+    const summary = isDispute
+      ? `Post this message in the chat of dispute ${issue.id} with ${issue.buyer.login} (only a chat message; nothing is refunded or changed):\n\n${disputeMessage(proposal, args.message)}`
+      : `Accept claim ${issue.id} from ${issue.buyer.login} with a ${proposal}:\n\n${args.message}`;
+    const result = {
+      issueId: issue.id,
+      type: issue.type,
+      resolution: args.resolution,
+      refund: refund ?? null,
+      sentAs: isDispute
+        ? ("CHAT_MESSAGE" as const)
+        : ("CLAIM_ACCEPTANCE" as const),
+      issueStatus: issue.currentState.status,
+    };
+    const audit = createAuditRecorder(context, {
+      action: RESOLUTION_ACTION,
+      target: issue.id,
+      details: { resolution: args.resolution, refund, sentAs: result.sentAs },
+    });
+    return withAudit(audit, async () => {
+      const { server } = context;
+      if (!(server && clientSupportsFormElicitation(server))) {
+        audit("unsupported");
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${summary}\n\nDry run: the client does not support confirmation prompts, so nothing was sent.`,
+            },
+          ],
+          structuredContent: { ...result, status: "DRY_RUN" },
+        };
+      }
+      if (
+        !(await confirm(server, summary, { confirmLabel: "Send proposal" }))
+      ) {
+        audit("cancelled");
+        return {
+          content: [
+            { type: "text", text: `${summary}\n\nProposal cancelled.` },
+          ],
+          structuredContent: { ...result, status: "CANCELLED" },
+        };
+      }
+      let issueStatus = issue.currentState.status;
+      if (isDispute) {
+        await postIssueMessage(allegro, issue.id, {
+          text: disputeMessage(proposal, args.message),
+          type: "REGULAR",
+        });
+      } else {
+        const change: IssueStatusChange = {
+          status: "ACCEPTED",
+          message: args.message,
+          expectation: {
+            type: RESOLUTION_EXPECTATIONS[args.resolution],
+            ...(refund && { refund }),
+          },
+        };
+        issueStatus = (await changeIssueStatus(allegro, issue.id, change))
+          .currentState.status;
+      }
+      audit("submitted", { issueStatus });
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${summary}\n\n${isDispute ? "Proposal posted in the dispute chat" : "Claim accepted"}; issue is ${issueStatus}.`,
+          },
+        ],
+        structuredContent: { ...result, status: "SUBMITTED", issueStatus },
+      };
+    });
+  },
+});
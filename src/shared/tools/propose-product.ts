@@ -0,0 +1,463 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import {
+  getCategory,
+  getCategoryParameters,
+  indexParameters,
+} from "../services/allegro/categories.js";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import {
+  type AllegroErrorDetail,
+  isAllegroApiError,
+} from "../services/allegro/errors.js";
+import { validateParameters } from "../services/allegro/parameters.js";
+import { proposeProduct } from "../services/allegro/products.js";
+import type {
+  CategoryParameter,
+  ParameterValue,
+  ProductProposal,
+} from "../services/allegro/types/index.js";
+import {
+  clientSupportsFormElicitation,
+  type ElicitResult,
+  elicitForm,
+  type FieldSchema,
+} from "../utils/elicitation.js";
+import { defineTool, invalidInput, toolError } from "./types.js";
+import { parameterInputSchema } from "./update-offer.js";
+
+const DEFAULT_GTIN_PARAMETER_ID = "225693";
+const FORM_PAGE_SIZE = 8;
+const MAX_ROUNDS = 3;
+const BASIC_FIELDS = ["name", "ean", "images"];
+const PARAMETER_FIELD_PREFIX = "parameters.";
+const GTIN_NAME_PATTERN = /\b(EAN|GTIN)\b/i;
+const GTIN_PATTERN = /^(\d{8}|\d{12,14})$/;
+const URL_SEPARATOR = /[\s,]+/;
+const RANGE_SEPARATOR = /\s*-\s*/;
+const PARAMETER_PATH_PATTERN = /^parameters\[(\d+)\]/;
+
+export const proposeProductInputSchema = z.object({
+  categoryId: z.string().min(1).describe("Leaf category for the new product"),
+  name: z.string().min(1).optional().describe("Product name"),
+  ean: z.string().optional().describe("EAN/GTIN code"),
+  images: z.array(z.string().url()).optional().describe("Product image URLs"),
+  parameters: z
+    .array(parameterInputSchema)
+    .optional()
+    .describe("Product parameters; missing ones are asked for"),
+});
+
+type ProposeProductArgs = z.infer<typeof proposeProductInputSchema>;
+
+interface ProposalDraft {
+  name?: string;
+  ean?: string;
+  images: string[];
+  values: Map<string, ParameterValue>;
+}
+
+interface FieldError {
+  field: string;
+  message: string;
+}
+
+interface ProposalSchema {
+  categoryId: string;
+  gtin?: CategoryParameter;
+  definitions: CategoryParameter[];
+  required: CategoryParameter[];
+}
+
+function isGtinDefinition(definition: CategoryParameter) {
+  return (
+    definition.id === DEFAULT_GTIN_PARAMETER_ID ||
+    GTIN_NAME_PATTERN.test(definition.name)
+  );
+}
+
+function isValidGtin(code: string) {
+  if (!GTIN_PATTERN.test(code)) {
+    return false;
+  }
+  const digits = [...code].map(Number);
+  const check = digits.pop();
+  const sum = digits
+    .reverse()
+    .reduce((acc, digit, i) => acc + digit * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+}
+
+function isUrl(value: string) {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+function toProposalSchema(
+  categoryId: string,
+  parameters: CategoryParameter[]
+): ProposalSchema {
+  const gtin = parameters.find(isGtinDefinition);
+  const definitions = parameters.filter(
+    (d) => d !== gtin && (d.options?.describesProduct || d.requiredForProduct)
+  );
+  return {
+    categoryId,
+    gtin,
+    definitions,
+    required: definitions.filter((d) => d.requiredForProduct),
+  };
+}
+
+function toDraft(args: ProposeProductArgs, schema: ProposalSchema) {
+  const values = new Map<string, ParameterValue>();
+  let ean = args.ean;
+  for (const value of args.parameters ?? []) {
+    if (schema.gtin && value.id === schema.gtin.id) {
+      ean ??= value.values?.[0];
+    } else {
+      values.set(value.id, value);
+    }
+  }
+  return { name: args.name, ean, images: args.images ?? [], values };
+}
+
+function validateBasics(draft: ProposalDraft, schema: ProposalSchema) {
+  const errors: FieldError[] = [];
+  if (!draft.name?.trim()) {
+    errors.push({ field: "name", message: "Product name is required" });
+  }
+  if (draft.ean && !isValidGtin(draft.ean)) {
+    errors.push({
+      field: "ean",
+      message: `"${draft.ean}" is not a valid EAN/GTIN`,
+    });
+  } else if (!draft.ean && schema.gtin?.requiredForProduct) {
+    errors.push({ field: "ean", message: "EAN/GTIN is required" });
+  }
+  if (draft.images.length === 0) {
+    errors.push({ field: "images", message: "At least one image is required" });
+  }
+  const invalidImages = draft.images.filter((url) => !isUrl(url));
+  if (invalidImages.length > 0) {
+    errors.push({
+      field: "images",
+      message: `Invalid image URLs: ${invalidImages.join(", ")}`,
+    });
+  }
+  return errors;
+}
+
+function validateDraft(draft: ProposalDraft, schema: ProposalSchema) {
+  const parameterErrors = validateParameters(
+    schema.definitions,
+    [...draft.values.values()],
+    schema.required
+  ).map((problem) => ({
+    field: `${PARAMETER_FIELD_PREFIX}${problem.parameterId}`,
+    message: `${problem.name} ${problem.message}`,
+  }));
+  return [...validateBasics(draft, schema), ...parameterErrors];
+}
+
+function parameterField(
+  definition: CategoryParameter,
+  description: string
+): FieldSchema {
+  const title = definition.unit
+    ? `${definition.name} (${definition.unit})`
+    : definition.name;
+  if (definition.restrictions?.range) {
+    return {
+      type: "string",
+      title,
+      description: `${description}. Enter as from-to`,
+    };
+  }
+  if (definition.type === "dictionary" && definition.dictionary) {
+    const options = definition.dictionary.map((d) => ({
+      const: d.id,
+      title: d.value,
+    }));
+    return definition.restrictions?.multipleChoices
+      ? { type: "array", title, description, items: { anyOf: options } }
+      : { type: "string", title, description, oneOf: options };
+  }
+  if (definition.type === "integer" || definition.type === "float") {
+    return {
+      type: definition.type === "integer" ? "integer" : "number",
+      title,
+      description,
+      minimum: definition.restrictions?.min,
+      maximum: definition.restrictions?.max,
+    };
+  }
+  return {
+    type: "string",
+    title,
+    description,
+    maxLength: definition.restrictions?.maxLength,
+  };
+}
+
+function basicField(field: string, description: string): FieldSchema {
+  switch (field) {
+    case "name":
+      return { type: "string", title: "Product name", description };
+    case "ean":
+      return { type: "string", title: "EAN (GTIN)", description };
+    default:
+      return {
+        type: "string",
+        title: "Image URLs",
+        description: `${description}. Separate URLs with spaces or new lines`,
+      };
+  }
+}
+
+function toFormPages(errors: FieldError[], schema: ProposalSchema) {
+  const byId = indexParameters(schema.definitions);
+  const messages = new Map<string, string[]>();
+  for (const error of errors) {
+    messages.set(error.field, [
+      ...(messages.get(error.field) ?? []),
+      error.message,
+    ]);
+  }
+  const basic: [string, FieldSchema][] = [];
+  const parameters: [string, FieldSchema][] = [];
+  for (const [field, fieldMessages] of messages) {
+    const description = fieldMessages.join("; ");
+    const definition = byId.get(field.slice(PARAMETER_FIELD_PREFIX.length));
+    if (BASIC_FIELDS.includes(field)) {
+      basic.push([field, basicField(field, description)]);
+    } else if (definition) {
+      parameters.push([field, parameterField(definition, description)]);
+    }
+  }
+  const pages = basic.length > 0 ? [basic] : [];
+  for (let i = 0; i < parameters.length; i += FORM_PAGE_SIZE) {
+    pages.push(parameters.slice(i, i + FORM_PAGE_SIZE));
+  }
+  return pages;
+}
+
+function toParameterValue(
+  definition: CategoryParameter,
+  answer: string | number | boolean | string[]
+): ParameterValue {
+  if (definition.restrictions?.range) {
+    const [from = "", to = ""] = String(answer).split(RANGE_SEPARATOR);
+    return { id: definition.id, rangeValue: { from, to } };
+  }
+  if (definition.type === "dictionary" && definition.dictionary) {
+    return {
+      id: definition.id,
+      valuesIds: Array.isArray(answer) ? answer : [String(answer)],
+    };
+  }
+  return { id: definition.id, values: [String(answer)] };
+}
+
+function applyAnswers(
+  draft: ProposalDraft,
+  schema: ProposalSchema,
+  content: NonNullable<ElicitResult["content"]>
+) {
+  const byId = indexParameters(schema.definitions);
+  for (const [field, answer] of Object.entries(content)) {
+    if (answer === "" || (Array.isArray(answer) && answer.length === 0)) {
+      continue;
+    }
+    const definition = byId.get(field.slice(PARAMETER_FIELD_PREFIX.length));
+    if (field === "name" || field === "ean") {
+      draft[field] = String(answer).trim();
+    } else if (field === "images") {
+      draft.images = String(answer).split(URL_SEPARATOR).filter(Boolean);
+    } else if (definition) {
+      draft.values.set(definition.id, toParameterValue(definition, answer));
+    }
+  }
+}
+
+async function collectFields(
+  server: McpServer,
+  draft: ProposalDraft,
+  schema: ProposalSchema,
+  errors: FieldError[]
+) {
+  const pages = toFormPages(errors, schema);
+  for (const [index, page] of pages.entries()) {
+    const result = await elicitForm(server, {
+      message: `Product proposal for category ${schema.categoryId} — step ${index + 1} of ${pages.length}`,
+      requestedSchema: {
+        type: "object",
+        properties: Object.fromEntries(page),
+        required: page.map(([field]) => field),
+      },
+    });
+    if (result.action !== "accept" || !result.content) {
+      return false;
+    }
+    applyAnswers(draft, schema, result.content);
+  }
+  return true;
+}
+
+function toProposal(
+  draft: ProposalDraft,
+  schema: ProposalSchema
+): ProductProposal {
+  return {
+    name: draft.name?.trim() ?? "",
+    category: { id: schema.categoryId },
+    parameters: [
+      ...draft.values.values(),
+      ...(draft.ean
+        ? [
+            {
+              id: schema.gtin?.id ?? DEFAULT_GTIN_PARAMETER_ID,
+              values: [draft.ean],
+            },
+          ]
+        : []),
+    ],
+    images: draft.images.map((url) => ({ url })),
+    language: "pl-PL",
+  };
+}
+
+function toFieldError(
+  detail: AllegroErrorDetail,
+  proposal: ProductProposal,
+  schema: ProposalSchema
+): FieldError {
+  const message = detail.userMessage || detail.message || detail.code;
+  const path = detail.path ?? "";
+  const parameterIndex = PARAMETER_PATH_PATTERN.exec(path)?.[1];
+  if (parameterIndex !== undefined) {
+    const id = proposal.parameters[Number(parameterIndex)]?.id;
+    const isGtin = id === (schema.gtin?.id ?? DEFAULT_GTIN_PARAMETER_ID);
+    return {
+      field: isGtin ? "ean" : `${PARAMETER_FIELD_PREFIX}${id}`,
+      message,
+    };
+  }
+  const field = BASIC_FIELDS.find((f) => path.startsWith(f));
+  return { field: field ?? (path || "proposal"), message };
+}
+
+function formatFieldErrors(title: string, errors: FieldError[]) {
+  return [title, "", ...errors.map((e) => `- ${e.field}: ${e.message}`)].join(
+    "\n"
+  );
+}
+
+export const proposeProductTool = defineTool({
+  name: "propose_product",
+  title: "Propose Product",
+  description:
+    "Propose a new product for Allegro's catalog when search_products finds nothing. Missing name, EAN, images and required category parameters are collected step by step through forms, validated against the parameter dictionary, and submission errors are mapped back to the fields that failed",
+  inputSchema: proposeProductInputSchema,
+  outputSchema: {
+    categoryId: z.string().describe("Category of the proposal"),
+    submitted: z.boolean().describe("Whether the proposal was sent"),
+    productId: z.string().nullable().describe("Id of the proposed product"),
+    name: z.string().nullable().describe("Product name"),
+    fieldErrors: z
+      .array(z.object({ field: z.string(), message: z.string() }))
+      .describe("Fields that failed validation"),
+  },
+  annotations: {
+    title: "Propose Product",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const [category, parameters] = await Promise.all([
+      getCategory(allegro, args.categoryId),
+      getCategoryParameters(allegro, args.categoryId),
+    ]);
+    if (!category.leaf || category.options?.productCreationEnabled === false) {
+      return toolError(
+        `Category ${category.name} (${category.id}) does not accept product proposals; choose a leaf category`
+      );
+    }
+    const schema = toProposalSchema(category.id, parameters);
+    const draft = toDraft(args, schema);
+    const unsubmitted = (fieldErrors: FieldError[]) => ({
+      categoryId: category.id,
+      submitted: false,
+      productId: null,
+      name: draft.name ?? null,
+      fieldErrors,
+    });
+    const { server } = context;
+    const formServer =
+      server && clientSupportsFormElicitation(server) ? server : undefined;
+    let errors = validateDraft(draft, schema);
+    for (
+      let round = 0;
+      formServer && errors.length > 0 && round < MAX_ROUNDS;
+      round++
+    ) {
+      if (!(await collectFields(formServer, draft, schema, errors))) {
+        return {
+          content: [{ type: "text", text: "Product proposal cancelled." }],
+          structuredContent: unsubmitted(errors),
+        };
+      }
+      errors = validateDraft(draft, schema);
+    }
+    if (errors.length > 0) {
+      return {
+        ...invalidInput(
+          formatFieldErrors("the product proposal is incomplete:", errors)
+        ),
+        structuredContent: unsubmitted(errors),
+      };
+    }
+    const proposal = toProposal(draft, schema);
+    try {
+      const product = await proposeProduct(allegro, proposal);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Proposed product ${product.name} (${product.id}) in category ${category.name}. Use create_offer_from_product to list it.`,
+          },
+        ],
+        structuredContent: {
+          categoryId: category.id,
+          submitted: true,
+          productId: product.id,
+          name: product.name,
+          fieldErrors: [],
+        },
+      };
+    } catch (error) {
+      if (!(isAllegroApiError(error) && [400, 422].includes(error.status))) {
+        throw error;
+      }
+      const fieldErrors = error.errors.map((e) =>
+        toFieldError(e, proposal, schema)
+      );
+      return {
+        ...toolError(
+          formatFieldErrors(
+            "Allegro rejected the product proposal:",
+            fieldErrors
+          )
+        ),
+        structuredContent: unsubmitted(fieldErrors),
+      };
+    }
+  },
+});
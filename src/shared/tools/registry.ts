@@ -2,12 +2,51 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import type { ZodObject, ZodRawShape, ZodTypeAny } from "zod";
 import { getCurrentAuthContext } from "../../core/context.js";
+import {
+  trackCurrentAllegroAccount,
+  withAllegroClient,
+} from "../services/allegro/context.js";
 import type { RequestContext } from "../types/context.js";
 import { asProviderInfo } from "../types/provider.js";
 import { logger } from "../utils/logger.js";
+import { addTrackingTool } from "./add-tracking.js";
+import { answerUserRatingTool } from "./answer-user-rating.js";
+import { bulkChangePriceQuantityTool } from "./bulk-change-price-quantity.js";
+import { composeOfferDescriptionTool } from "./compose-offer-description.js";
+import { createOfferFromProductTool } from "./create-offer-from-product.js";
+import { createShipmentTool } from "./create-shipment.js";
+import { draftBuyerReplyTool } from "./draft-buyer-reply.js";
 import { echoTool } from "./echo.js";
+import { getCustomerReturnTool } from "./get-customer-return.js";
+import { getIssueChatTool } from "./get-issue-chat.js";
+import { getMessageThreadTool } from "./get-message-thread.js";
+import { getOfferTool } from "./get-offer.js";
+import { getOrderTool } from "./get-order.js";
+import { getShipmentCommandTool } from "./get-shipment-command.js";
+import { getShipmentLabelTool } from "./get-shipment-label.js";
+import { getTrackingHistoryTool } from "./get-tracking-history.js";
 import { healthTool } from "./health.js";
+import { initiateRefundTool } from "./initiate-refund.js";
+import { listBillingEntriesTool } from "./list-billing-entries.js";
+import { listCustomerReturnsTool } from "./list-customer-returns.js";
+import { listDeliveryServicesTool } from "./list-delivery-services.js";
+import { listIssuesTool } from "./list-issues.js";
+import { listMessageThreadsTool } from "./list-message-threads.js";
+import { listMyOffersTool } from "./list-my-offers.js";
+import { listOrdersTool } from "./list-orders.js";
+import { listPaymentOperationsTool } from "./list-payment-operations.js";
+import { listUserRatingsTool } from "./list-user-ratings.js";
+import { postIssueMessageTool } from "./post-issue-message.js";
+import { proposeIssueResolutionTool } from "./propose-issue-resolution.js";
+import { proposeProductTool } from "./propose-product.js";
+import { rejectCustomerReturnTool } from "./reject-customer-return.js";
+import { replyToMessageThreadTool } from "./reply-to-message-thread.js";
+import { requestRatingRemovalTool } from "./request-rating-removal.js";
+import { searchProductsTool } from "./search-products.js";
+import { setOrderFulfillmentStatusTool } from "./set-order-fulfillment-status.js";
 import type { SharedToolDefinition, ToolContext, ToolResult } from "./types.js";
+import { updateOfferTool } from "./update-offer.js";
+import { uploadOfferImageTool } from "./upload-offer-image.js";
 
 function getSchemaShape(schema: ZodTypeAny) {
   if ("shape" in schema && typeof schema.shape === "object") {
@@ -74,6 +113,41 @@ function asRegisteredTool<T extends ZodRawShape>(
 export const sharedTools: RegisteredTool[] = [
   asRegisteredTool(healthTool),
   asRegisteredTool(echoTool),
+  asRegisteredTool(listMyOffersTool),
+  asRegisteredTool(getOfferTool),
+  asRegisteredTool(updateOfferTool),
+  asRegisteredTool(bulkChangePriceQuantityTool),
+  asRegisteredTool(listOrdersTool),
+  asRegisteredTool(getOrderTool),
+  asRegisteredTool(setOrderFulfillmentStatusTool),
+  asRegisteredTool(listDeliveryServicesTool),
+  asRegisteredTool(createShipmentTool),
+  asRegisteredTool(getShipmentCommandTool),
+  asRegisteredTool(getShipmentLabelTool),
+  asRegisteredTool(addTrackingTool),
+  asRegisteredTool(getTrackingHistoryTool),
+  asRegisteredTool(searchProductsTool),
+  asRegisteredTool(createOfferFromProductTool),
+  asRegisteredTool(proposeProductTool),
+  asRegisteredTool(uploadOfferImageTool),
+  asRegisteredTool(composeOfferDescriptionTool),
+  asRegisteredTool(listBillingEntriesTool),
+  asRegisteredTool(listPaymentOperationsTool),
+  asRegisteredTool(initiateRefundTool),
+  asRegisteredTool(listMessageThreadsTool),
+  asRegisteredTool(getMessageThreadTool),
+  asRegisteredTool(replyToMessageThreadTool),
+  asRegisteredTool(draftBuyerReplyTool),
+  asRegisteredTool(listIssuesTool),
+  asRegisteredTool(getIssueChatTool),
+  asRegisteredTool(postIssueMessageTool),
+  asRegisteredTool(proposeIssueResolutionTool),
+  asRegisteredTool(listCustomerReturnsTool),
+  asRegisteredTool(getCustomerReturnTool),
+  asRegisteredTool(rejectCustomerReturnTool),
+  asRegisteredTool(listUserRatingsTool),
+  asRegisteredTool(answerUserRatingTool),
+  asRegisteredTool(requestRatingRemovalTool),
 ];
 
 export function getSharedTool(name: string) {
@@ -118,7 +192,7 @@ export async function executeSharedTool(
     }
     const result = await tool.handler(
       parseResult.data as Record<string, unknown>,
-      context
+      withAllegroClient(context)
     );
     if (tool.outputSchema && !result.isError && !result.structuredContent) {
       return {
@@ -193,7 +267,9 @@ export function registerTools(
             ? asProviderInfo(authContext.provider)
             : undefined,
           resolvedHeaders: authContext?.resolvedHeaders,
+          server,
         };
+        trackCurrentAllegroAccount();
         const result = await executeSharedTool(tool.name, args, context);
         return result as CallToolResult;
       }
@@ -0,0 +1,118 @@
+import { z } from "zod";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import {
+  getCustomerReturn,
+  rejectCustomerReturn,
+} from "../services/allegro/orders.js";
+import { createAuditRecorder, withAudit } from "../services/audit.js";
+import {
+  clientSupportsFormElicitation,
+  confirm,
+} from "../utils/elicitation.js";
+import { formatReturnRow, toReturnRow } from "./list-customer-returns.js";
+import { defineTool, invalidInput } from "./types.js";
+
+const REJECT_ACTION = "reject_customer_return";
+
+const FINAL_RETURN_STATUSES = new Set([
+  "FINISHED",
+  "FINISHED_APT",
+  "REJECTED",
+  "COMMISSION_REFUNDED",
+]);
+
+export const rejectCustomerReturnInputSchema = z.object({
+  returnId: z.string().min(1).describe("Customer return id"),
+  code: z
+    .enum(["REFUND_REJECTED"])
+    .optional()
+    .describe("Rejection reason code (default REFUND_REJECTED)"),
+  reason: z
+    .string()
+    .min(1)
+    .max(1000)
+    .describe("Why the refund is rejected, shown to the buyer"),
+});
+
+export const rejectCustomerReturnTool = defineTool({
+  name: "reject_customer_return",
+  title: "Reject Customer Return",
+  description:
+    "Reject a customer return's refund with a reason code and an explanation for the buyer. Asks for confirmation first and returns a dry run when the client cannot confirm. Every attempt is written to the server log as an audit entry",
+  inputSchema: rejectCustomerReturnInputSchema,
+  outputSchema: {
+    returnId: z.string().describe("Customer return id"),
+    status: z
+      .enum(["REJECTED", "CANCELLED", "DRY_RUN"])
+      .describe("What happened to the rejection"),
+    returnStatus: z.string().describe("Return status after the call"),
+  },
+  annotations: {
+    title: "Reject Customer Return",
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const customerReturn = await getCustomerReturn(allegro, args.returnId);
+    if (FINAL_RETURN_STATUSES.has(customerReturn.status)) {
+      return invalidInput(
+        `Return ${customerReturn.referenceNumber} is already ${customerReturn.status}`
+      );
+    }
+    const code = args.code ?? "REFUND_REJECTED";
+    const summary = `Reject return ${customerReturn.referenceNumber} (${code}):\n\n${formatReturnRow(toReturnRow(customerReturn))}\n\nReason: ${args.reason}`;
+    const result = {
+      returnId: customerReturn.id,
+      returnStatus: customerReturn.status,
+    };
+    const audit = createAuditRecorder(context, {
+      action: REJECT_ACTION,
+      target: customerReturn.id,
+      details: { orderId: customerReturn.orderId, code },
+    });
+    return withAudit(audit, async () => {
+      const { server } = context;
+      if (!(server && clientSupportsFormElicitation(server))) {
+        audit("unsupported");
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${summary}\n\nDry run: the client does not support confirmation prompts, so nothing was rejected.`,
+            },
+          ],
+          structuredContent: { ...result, status: "DRY_RUN" },
+        };
+      }
+      if (
+        !(await confirm(server, summary, { confirmLabel: "Reject return" }))
+      ) {
+        audit("cancelled");
+        return {
+          content: [
+            { type: "text", text: `${summary}\n\nRejection cancelled.` },
+          ],
+          structuredContent: { ...result, status: "CANCELLED" },
+        };
+      }
+      const updated = await rejectCustomerReturn(allegro, customerReturn.id, {
+        code,
+        reason: args.reason,
+      });
+      const returnStatus = updated?.status ?? "REJECTED";
+      audit("rejected", { returnStatus });
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${summary}\n\nReturn rejected; status is ${returnStatus}.`,
+          },
+        ],
+        structuredContent: { ...result, status: "REJECTED", returnStatus },
+      };
+    });
+  },
+});
@@ -0,0 +1,90 @@
+import { z } from "zod";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import {
+  MAX_MESSAGE_LENGTH,
+  sendThreadMessage,
+  uploadMessageAttachment,
+} from "../services/allegro/messaging.js";
+import {
+  attachmentInputSchema,
+  decodeAttachment,
+} from "../utils/attachments.js";
+import { defineTool, invalidInput } from "./types.js";
+
+const MAX_ATTACHMENTS = 5;
+
+export const replyToMessageThreadInputSchema = z.object({
+  threadId: z.string().min(1).describe("Message thread id"),
+  text: z
+    .string()
+    .min(1)
+    .max(MAX_MESSAGE_LENGTH)
+    .describe("Reply text shown to the buyer"),
+  attachments: z
+    .array(attachmentInputSchema)
+    .max(MAX_ATTACHMENTS)
+    .optional()
+    .describe("Files to attach"),
+});
+
+export const replyToMessageThreadTool = defineTool({
+  name: "reply_to_message_thread",
+  title: "Reply to Message Thread",
+  description:
+    "Send a reply to a buyer in an Allegro message center thread, optionally with image or PDF attachments (base64, up to 25 MB each)",
+  inputSchema: replyToMessageThreadInputSchema,
+  outputSchema: {
+    threadId: z.string().describe("Message thread id"),
+    messageId: z.string().describe("Id of the sent message"),
+    status: z.string().describe("Delivery status reported by Allegro"),
+    createdAt: z.string().describe("When the message was sent"),
+    attachmentIds: z.array(z.string()).describe("Uploaded attachment ids"),
+  },
+  annotations: {
+    title: "Reply to Message Thread",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const decoded = (args.attachments ?? []).map(decodeAttachment);
+    const problems = decoded.flatMap((d) => (d.problem ? [d.problem] : []));
+    if (problems.length > 0) {
+      return invalidInput(problems.join("; "));
+    }
+    const attachmentIds: string[] = [];
+    for (const { file } of decoded) {
+      if (file) {
+        const { id } = await uploadMessageAttachment(allegro, file);
+        attachmentIds.push(id);
+      }
+    }
+    const message = await sendThreadMessage(allegro, args.threadId, {
+      text: args.text,
+      ...(attachmentIds.length > 0 && {
+        attachments: attachmentIds.map((id) => ({ id })),
+      }),
+    });
+    const attached =
+      attachmentIds.length > 0
+        ? ` with ${attachmentIds.length} attachment(s)`
+        : "";
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Reply ${message.id} sent to thread ${args.threadId}${attached} (${message.status}).`,
+        },
+      ],
+      structuredContent: {
+        threadId: args.threadId,
+        messageId: message.id,
+        status: message.status,
+        createdAt: message.createdAt,
+        attachmentIds,
+      },
+    };
+  },
+});
@@ -0,0 +1,80 @@
+import { z } from "zod";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import {
+  getUserRating,
+  requestRatingRemoval,
+} from "../services/allegro/ratings.js";
+import { createAuditRecorder, withAudit } from "../services/audit.js";
+import { defineTool, invalidInput } from "./types.js";
+
+export const requestRatingRemovalInputSchema = z.object({
+  ratingId: z.string().min(1).describe("Rating id"),
+  reason: z
+    .string()
+    .min(1)
+    .max(1000)
+    .describe("Why the rating is unjustified, for Allegro's review team"),
+});
+
+export const requestRatingRemovalTool = defineTool({
+  name: "request_rating_removal",
+  title: "Request Rating Removal",
+  description:
+    "Ask Allegro to remove an unjustified negative rating, with an explanation for the review team. Each request is written to the server log as an audit entry",
+  inputSchema: requestRatingRemovalInputSchema,
+  outputSchema: {
+    ratingId: z.string().describe("Rating id"),
+    buyer: z.string().describe("Buyer login"),
+    status: z.string().describe("Removal request status"),
+    requestedAt: z.string().nullable().describe("When removal was requested"),
+  },
+  annotations: {
+    title: "Request Rating Removal",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const rating = await getUserRating(allegro, args.ratingId);
+    if (rating.recommended) {
+      return invalidInput(
+        `Rating ${rating.id} recommends the seller; only negative ratings can be disputed`
+      );
+    }
+    if (rating.removal?.request) {
+      return invalidInput(
+        `Removal of rating ${rating.id} was already requested on ${rating.removal.request.createdAt}`
+      );
+    }
+    const audit = createAuditRecorder(context, {
+      action: "request_rating_removal",
+      target: rating.id,
+      details: { buyer: rating.buyer.login },
+    });
+    return withAudit(audit, async () => {
+      const removal = await requestRatingRemoval(
+        allegro,
+        rating.id,
+        args.reason
+      );
+      const status = removal.status ?? "REQUESTED";
+      audit("submitted", { status });
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Removal of the negative rating ${rating.id} from ${rating.buyer.login} requested (${status}). Allegro reviews the request before deciding.`,
+          },
+        ],
+        structuredContent: {
+          ratingId: rating.id,
+          buyer: rating.buyer.login,
+          status,
+          requestedAt: removal.request?.createdAt ?? null,
+        },
+      };
+    });
+  },
+});
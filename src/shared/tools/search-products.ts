@@ -0,0 +1,99 @@
+import { z } from "zod";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import { searchProducts } from "../services/allegro/products.js";
+import type { CatalogProduct } from "../services/allegro/types/index.js";
+import { summarizeList } from "../utils/formatting.js";
+import { defineTool, invalidInput } from "./types.js";
+
+export const searchProductsInputSchema = z.object({
+  phrase: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Search phrase, e.g. product name or model"),
+  ean: z
+    .string()
+    .regex(/^\d{8,14}$/)
+    .optional()
+    .describe("EAN/GTIN code; searches in GTIN mode"),
+  categoryId: z.string().optional().describe("Allegro category id"),
+  mode: z
+    .enum(["GTIN", "MPN", "MODEL"])
+    .optional()
+    .describe("How to interpret the phrase (default: full-text search)"),
+  cursor: z.string().optional().describe("Cursor from a previous page"),
+});
+
+function toProductRow(product: CatalogProduct) {
+  const gtin = product.parameters?.find((p) => p.options?.isGTIN);
+  return {
+    id: product.id,
+    name: product.name,
+    categoryId: product.category.id,
+    gtin: gtin?.values?.[0] ?? null,
+    imageUrl: product.images?.[0]?.url ?? null,
+  };
+}
+
+export const searchProductsTool = defineTool({
+  name: "search_products",
+  title: "Search Products",
+  description:
+    "Search the Allegro product catalog by phrase, EAN/GTIN or category to find a product to sell with create_offer_from_product",
+  inputSchema: searchProductsInputSchema,
+  outputSchema: {
+    products: z
+      .array(
+        z.object({
+          id: z.string(),
+          name: z.string(),
+          categoryId: z.string(),
+          gtin: z.string().nullable(),
+          imageUrl: z.string().nullable(),
+        })
+      )
+      .describe("Matching catalog products"),
+    count: z.number().describe("Number of products on this page"),
+    nextCursor: z.string().optional().describe("Cursor for the next page"),
+  },
+  annotations: {
+    title: "Search Products",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    if (!(args.phrase || args.ean)) {
+      return invalidInput("provide phrase or ean");
+    }
+    const allegro = requireAllegroClient(context);
+    const response = await searchProducts(allegro, {
+      phrase: args.ean ?? args.phrase,
+      mode: args.ean ? "GTIN" : args.mode,
+      categoryId: args.categoryId,
+      pageId: args.cursor,
+    });
+    const products = response.products.map(toProductRow);
+    const nextCursor = response.nextPage?.id;
+    const text = summarizeList(
+      products,
+      (p) =>
+        `- **${p.name}** (${p.id}) — category ${p.categoryId}${p.gtin ? `, GTIN ${p.gtin}` : ""}`,
+      { title: "Products" }
+    );
+    return {
+      content: [
+        {
+          type: "text",
+          text: nextCursor ? `${text}\n\nNext cursor: ${nextCursor}` : text,
+        },
+      ],
+      structuredContent: {
+        products,
+        count: products.length,
+        nextCursor,
+      },
+    };
+  },
+});
@@ -0,0 +1,110 @@
+import { z } from "zod";
+import type { AllegroClient } from "../services/allegro/client.js";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import { isAllegroApiError } from "../services/allegro/errors.js";
+import { getOrder, setFulfillmentStatus } from "../services/allegro/orders.js";
+import { fulfillmentStatuses } from "./list-orders.js";
+import { defineTool } from "./types.js";
+
+export const setOrderFulfillmentStatusInputSchema = z.object({
+  orderId: z.string().min(1).describe("Checkout form id"),
+  status: z.enum(fulfillmentStatuses).describe("New fulfillment status"),
+  revision: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "Checkout form revision from get_order; the update is rejected if the order changed since"
+    ),
+});
+
+async function describeConflict(
+  allegro: AllegroClient,
+  orderId: string,
+  revision: string | undefined
+) {
+  const current = await getOrder(allegro, orderId).catch(() => null);
+  const lines = [
+    `Conflict: order ${orderId} was modified since revision ${revision ?? "(unknown)"}.`,
+  ];
+  if (current) {
+    lines.push(
+      `Current revision is ${current.revision} with fulfillment status ${current.fulfillment?.status ?? "unknown"}.`
+    );
+  }
+  lines.push(
+    "Re-read the order with get_order and retry with the current revision."
+  );
+  return {
+    text: lines.join("\n"),
+    currentRevision: current?.revision ?? null,
+  };
+}
+
+export const setOrderFulfillmentStatusTool = defineTool({
+  name: "set_order_fulfillment_status",
+  title: "Set Order Fulfillment Status",
+  description:
+    "Change the seller fulfillment status of an Allegro order. Pass the revision from get_order to reject the update if the order changed in the meantime",
+  inputSchema: setOrderFulfillmentStatusInputSchema,
+  outputSchema: {
+    orderId: z.string().describe("Checkout form id"),
+    status: z.enum(fulfillmentStatuses).describe("Requested status"),
+    applied: z.boolean().describe("Whether Allegro accepted the change"),
+    conflict: z
+      .boolean()
+      .describe("Whether the order revision no longer matched"),
+    currentRevision: z
+      .string()
+      .nullable()
+      .describe("Current revision when a conflict was detected"),
+  },
+  annotations: {
+    title: "Set Order Fulfillment Status",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const result = {
+      orderId: args.orderId,
+      status: args.status,
+      applied: false,
+      conflict: false,
+      currentRevision: null,
+    };
+    try {
+      await setFulfillmentStatus(
+        allegro,
+        args.orderId,
+        args.status,
+        args.revision
+      );
+    } catch (error) {
+      if (!(isAllegroApiError(error) && error.status === 409)) {
+        throw error;
+      }
+      const { text, currentRevision } = await describeConflict(
+        allegro,
+        args.orderId,
+        args.revision
+      );
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: { ...result, conflict: true, currentRevision },
+        isError: true,
+      };
+    }
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Order ${args.orderId} fulfillment status set to ${args.status}.`,
+        },
+      ],
+      structuredContent: { ...result, applied: true },
+    };
+  },
+});
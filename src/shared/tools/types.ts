@@ -1,4 +1,6 @@
-import type { ZodObject, ZodRawShape, z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { type ZodObject, type ZodRawShape, z } from "zod";
+import type { AllegroClient } from "../services/allegro/client.js";
 import type { AuthStrategy } from "../types/auth.js";
 import type { ProviderInfo } from "../types/provider.js";
 
@@ -16,23 +18,38 @@ export interface ToolContext {
   provider?: ProviderInfo;
   resolvedHeaders?: Record<string, string>;
   authHeaders?: Record<string, string>;
+  allegro?: AllegroClient;
+  server?: McpServer;
 }
 
+export const imageContentSchema = z.object({
+  type: z.literal("image"),
+  data: z.string().min(1).describe("Base64-encoded image data"),
+  mimeType: z.string().describe("Image MIME type, e.g. image/jpeg"),
+});
+
+export type ImageContent = z.infer<typeof imageContentSchema>;
+
 export type ToolContentBlock =
   | {
       type: "text";
       text: string;
     }
-  | {
-      type: "image";
-      data: string;
-      mimeType: string;
-    }
+  | ImageContent
   | {
       type: "resource";
       uri: string;
       mimeType?: string;
       text?: string;
+    }
+  | {
+      type: "resource";
+      resource: {
+        uri: string;
+        mimeType?: string;
+        text?: string;
+        blob?: string;
+      };
     };
 
 export interface ToolResult {
@@ -41,6 +58,17 @@ export interface ToolResult {
   structuredContent?: Record<string, unknown>;
 }
 
+export function toolError(message: string) {
+  return {
+    content: [{ type: "text" as const, text: message }],
+    isError: true,
+  };
+}
+
+export function invalidInput(message: string) {
+  return toolError(`Invalid input: ${message}`);
+}
+
 export interface SharedToolDefinition<
   TShape extends ZodRawShape = ZodRawShape,
 > {
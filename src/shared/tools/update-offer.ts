@@ -0,0 +1,291 @@
+import { z } from "zod";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import {
+  getProductOffer,
+  updateProductOffer,
+} from "../services/allegro/offers.js";
+import type {
+  Description,
+  ParameterValue,
+  ProductOffer,
+} from "../services/allegro/types/index.js";
+import {
+  clientSupportsFormElicitation,
+  confirm,
+} from "../utils/elicitation.js";
+import { formatFieldChange } from "../utils/formatting.js";
+import { defineTool } from "./types.js";
+
+export const parameterInputSchema = z.object({
+  id: z.string().min(1).describe("Category parameter id"),
+  values: z.array(z.string()).optional().describe("Free-text values"),
+  valuesIds: z.array(z.string()).optional().describe("Dictionary value ids"),
+  rangeValue: z
+    .object({ from: z.string(), to: z.string() })
+    .optional()
+    .describe("Range value for range parameters"),
+});
+
+const descriptionSectionSchema = z.object({
+  items: z
+    .array(
+      z.union([
+        z.object({ type: z.literal("TEXT"), content: z.string().min(1) }),
+        z.object({ type: z.literal("IMAGE"), url: z.string().url() }),
+      ])
+    )
+    .min(1)
+    .max(2),
+});
+
+export const updateOfferInputSchema = z.object({
+  offerId: z.string().min(1).describe("Allegro offer id"),
+  price: z.number().positive().optional().describe("New buy-now price"),
+  stock: z.number().int().min(0).optional().describe("New available stock"),
+  title: z.string().min(1).max(75).optional().describe("New offer title"),
+  description: z
+    .array(descriptionSectionSchema)
+    .min(1)
+    .optional()
+    .describe("Replacement description sections"),
+  parameters: z
+    .array(parameterInputSchema)
+    .min(1)
+    .optional()
+    .describe("Parameters to set; others are kept unchanged"),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("Only show the diff without applying it"),
+});
+
+type UpdateOfferArgs = z.infer<typeof updateOfferInputSchema>;
+
+interface FieldChange {
+  field: string;
+  before: string | null;
+  after: string | null;
+}
+
+function describeParameter(value: ParameterValue | undefined) {
+  if (!value) {
+    return null;
+  }
+  if (value.rangeValue) {
+    return `${value.rangeValue.from}–${value.rangeValue.to}`;
+  }
+  return [...(value.valuesIds ?? []), ...(value.values ?? [])].join(", ");
+}
+
+function describeDescription(description: Description | undefined) {
+  if (!description) {
+    return null;
+  }
+  const items = description.sections.flatMap((s) => s.items);
+  const textLength = items.reduce(
+    (sum, item) => sum + (item.content?.length ?? 0),
+    0
+  );
+  const images = items.filter((item) => item.type === "IMAGE").length;
+  return `${description.sections.length} sections, ${textLength} chars, ${images} images`;
+}
+
+function mergeParameters(current: ParameterValue[], updates: ParameterValue[]) {
+  const byId = new Map(current.map((p) => [p.id, p]));
+  for (const update of updates) {
+    byId.set(update.id, update);
+  }
+  return [...byId.values()];
+}
+
+interface PatchPart {
+  patch: Record<string, unknown>;
+  changes: FieldChange[];
+}
+
+function diffPrice(offer: ProductOffer, price: number): PatchPart | null {
+  const current = offer.sellingMode?.price;
+  const currency = current?.currency ?? "PLN";
+  const amount = price.toFixed(2);
+  if (amount === current?.amount) {
+    return null;
+  }
+  return {
+    patch: { sellingMode: { price: { amount, currency } } },
+    changes: [
+      {
+        field: "price",
+        before: current ? `${current.amount} ${currency}` : null,
+        after: `${amount} ${currency}`,
+      },
+    ],
+  };
+}
+
+function diffStock(offer: ProductOffer, stock: number): PatchPart | null {
+  if (stock === offer.stock?.available) {
+    return null;
+  }
+  return {
+    patch: { stock: { available: stock, unit: offer.stock?.unit ?? "UNIT" } },
+    changes: [
+      {
+        field: "stock",
+        before: offer.stock ? String(offer.stock.available) : null,
+        after: String(stock),
+      },
+    ],
+  };
+}
+
+function diffParameters(
+  offer: ProductOffer,
+  updates: ParameterValue[]
+): PatchPart | null {
+  const current = offer.parameters ?? [];
+  const currentById = new Map(current.map((p) => [p.id, p]));
+  const changed = updates.filter(
+    (p) => describeParameter(currentById.get(p.id)) !== describeParameter(p)
+  );
+  if (changed.length === 0) {
+    return null;
+  }
+  return {
+    patch: { parameters: mergeParameters(current, updates) },
+    changes: changed.map((parameter) => {
+      const before = currentById.get(parameter.id);
+      return {
+        field: `parameter ${before?.name ?? parameter.id}`,
+        before: describeParameter(before),
+        after: describeParameter(parameter),
+      };
+    }),
+  };
+}
+
+export function buildOfferPatch(offer: ProductOffer, args: UpdateOfferArgs) {
+  const parts: Array<PatchPart | null> = [];
+  if (args.title !== undefined && args.title !== offer.name) {
+    parts.push({
+      patch: { name: args.title },
+      changes: [{ field: "title", before: offer.name, after: args.title }],
+    });
+  }
+  if (args.price !== undefined) {
+    parts.push(diffPrice(offer, args.price));
+  }
+  if (args.stock !== undefined) {
+    parts.push(diffStock(offer, args.stock));
+  }
+  if (args.description) {
+    const description: Description = { sections: args.description };
+    parts.push({
+      patch: { description },
+      changes: [
+        {
+          field: "description",
+          before: describeDescription(offer.description),
+          after: describeDescription(description),
+        },
+      ],
+    });
+  }
+  if (args.parameters) {
+    parts.push(diffParameters(offer, args.parameters));
+  }
+  const applicable = parts.filter((part): part is PatchPart => part !== null);
+  return {
+    patch: Object.assign({}, ...applicable.map((part) => part.patch)) as Record<
+      string,
+      unknown
+    >,
+    changes: applicable.flatMap((part) => part.changes),
+  };
+}
+
+function formatChanges(offerId: string, changes: FieldChange[]) {
+  return [
+    `Changes for offer ${offerId}:`,
+    "",
+    ...changes.map((c) => `- ${formatFieldChange(c.field, c.before, c.after)}`),
+  ].join("\n");
+}
+
+export const updateOfferTool = defineTool({
+  name: "update_offer",
+  title: "Update Offer",
+  description:
+    "Edit a live Allegro offer (price, stock, title, description, parameters). Shows a field-by-field diff and asks for confirmation before applying; returns a dry-run diff when the client cannot confirm",
+  inputSchema: updateOfferInputSchema,
+  outputSchema: {
+    offerId: z.string().describe("Offer id"),
+    applied: z.boolean().describe("Whether the change was sent to Allegro"),
+    dryRun: z.boolean().describe("Whether this was only a preview"),
+    changes: z
+      .array(
+        z.object({
+          field: z.string(),
+          before: z.string().nullable(),
+          after: z.string().nullable(),
+        })
+      )
+      .describe("Field-by-field diff"),
+  },
+  annotations: {
+    title: "Update Offer",
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    const allegro = requireAllegroClient(context);
+    const offer = await getProductOffer(allegro, args.offerId);
+    const { patch, changes } = buildOfferPatch(offer, args);
+    const result = {
+      offerId: args.offerId,
+      applied: false,
+      dryRun: true,
+      changes,
+    };
+    if (changes.length === 0) {
+      return {
+        content: [{ type: "text", text: "No changes to apply." }],
+        structuredContent: { ...result, dryRun: false },
+      };
+    }
+    const diff = formatChanges(args.offerId, changes);
+    const { server } = context;
+    const canConfirm = Boolean(server && clientSupportsFormElicitation(server));
+    if (args.dryRun || !(server && canConfirm)) {
+      const reason = args.dryRun
+        ? ""
+        : " The client does not support confirmation prompts.";
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${diff}\n\nDry run: nothing was changed.${reason}`,
+          },
+        ],
+        structuredContent: result,
+      };
+    }
+    const confirmed = await confirm(
+      server,
+      `${diff}\n\nApply these changes to the live offer?`,
+      { confirmLabel: "Apply changes" }
+    );
+    if (!confirmed) {
+      return {
+        content: [{ type: "text", text: `${diff}\n\nUpdate cancelled.` }],
+        structuredContent: { ...result, dryRun: false },
+      };
+    }
+    await updateProductOffer(allegro, args.offerId, patch);
+    return {
+      content: [{ type: "text", text: `${diff}\n\nChanges applied.` }],
+      structuredContent: { ...result, applied: true, dryRun: false },
+    };
+  },
+});
@@ -0,0 +1,229 @@
+import { z } from "zod";
+import { assertSsrfSafe } from "../oauth/ssrf.js";
+import type { AllegroClient } from "../services/allegro/client.js";
+import { requireAllegroClient } from "../services/allegro/context.js";
+import {
+  uploadImageData,
+  uploadImageFromUrl,
+} from "../services/allegro/images.js";
+import {
+  getProductOffer,
+  updateProductOffer,
+} from "../services/allegro/offers.js";
+import { base64DecodeBytes } from "../utils/base64.js";
+import { matchesFileSignature } from "../utils/file-signatures.js";
+import {
+  defineTool,
+  type ImageContent,
+  imageContentSchema,
+  invalidInput,
+} from "./types.js";
+
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const MAX_GALLERY_IMAGES = 16;
+const URL_CHECK_TIMEOUT_MS = 10_000;
+const MAX_REDIRECTS = 3;
+const IMAGE_MIME_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp"];
+
+export const uploadOfferImageInputSchema = z.object({
+  url: z.string().url().optional().describe("Public HTTPS URL of the image"),
+  image: imageContentSchema
+    .optional()
+    .describe("Image content block, as returned by tools or sampling"),
+  offerId: z
+    .string()
+    .optional()
+    .describe("Offer whose gallery should receive the image"),
+  position: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_GALLERY_IMAGES)
+    .optional()
+    .describe("1-based gallery position (default: append)"),
+});
+
+function formatSize(bytes: number) {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function checkMimeType(mimeType: string | null) {
+  const type = mimeType?.split(";")[0].trim().toLowerCase() ?? "";
+  if (!IMAGE_MIME_TYPES.includes(type)) {
+    return `Unsupported image type ${type || "(unknown)"}; use ${IMAGE_MIME_TYPES.join(", ")}`;
+  }
+}
+
+function checkSize(bytes: number) {
+  if (bytes > MAX_IMAGE_BYTES) {
+    return `Image is ${formatSize(bytes)}; the limit is ${formatSize(MAX_IMAGE_BYTES)}`;
+  }
+}
+
+export function decodeImage(image: ImageContent) {
+  const mimeType = image.mimeType.toLowerCase();
+  const mimeProblem = checkMimeType(mimeType);
+  if (mimeProblem) {
+    return { problem: mimeProblem };
+  }
+  const bytes = base64DecodeBytes(image.data);
+  if (!bytes) {
+    return { problem: "Image data is not valid base64" };
+  }
+  const sizeProblem = checkSize(bytes.length);
+  if (sizeProblem) {
+    return { problem: sizeProblem };
+  }
+  if (!matchesFileSignature(mimeType, bytes)) {
+    return { problem: `Image data does not look like ${mimeType}` };
+  }
+  return { bytes, mimeType };
+}
+
+async function probeImageUrl(url: string, init: RequestInit) {
+  let location = url;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    assertSsrfSafe(location, { requireNonRootPath: false });
+    const response = await fetch(location, {
+      ...init,
+      redirect: "manual",
+      signal: AbortSignal.timeout(URL_CHECK_TIMEOUT_MS),
+    });
+    await response.body?.cancel();
+    const next = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !next) {
+      return response;
+    }
+    location = new URL(next, location).href;
+  }
+  throw new Error(`more than ${MAX_REDIRECTS} redirects`);
+}
+
+function imageSize(response: Response) {
+  const total = response.headers.get("content-range")?.split("/")[1];
+  return Number(
+    response.status === 206 ? total : response.headers.get("content-length")
+  );
+}
+
+async function checkImageUrl(url: string) {
+  let response: Response;
+  try {
+    response = await probeImageUrl(url, { method: "HEAD" });
+    if (response.status === 405) {
+      // Servers without HEAD still report type and size for a ranged GET.
+      response = await probeImageUrl(url, {
+        headers: { range: "bytes=0-0" },
+      });
+    }
+  } catch (error) {
+    return `Could not check ${url}: ${(error as Error).message}`;
+  }
+  if (!response.ok) {
+    return `Image URL returned HTTP ${response.status}`;
+  }
+  const length = imageSize(response);
+  return (
+    checkMimeType(response.headers.get("content-type")) ??
+    (length > 0 ? checkSize(length) : undefined)
+  );
+}
+
+async function loadGallery(allegro: AllegroClient, offerId: string) {
+  const offer = await getProductOffer(allegro, offerId);
+  return offer.images ?? [];
+}
+
+export const uploadOfferImageTool = defineTool({
+  name: "upload_offer_image",
+  title: "Upload Offer Image",
+  description:
+    "Upload an image to Allegro's image hosting from a URL or base64 image content (JPEG, PNG, GIF or WebP, up to 10 MB) and optionally add it to an offer's gallery",
+  inputSchema: uploadOfferImageInputSchema,
+  outputSchema: {
+    url: z.string().describe("Hosted image URL"),
+    expiresAt: z
+      .string()
+      .nullable()
+      .describe("When the image expires unless used in an offer"),
+    offerId: z.string().nullable().describe("Offer the image was added to"),
+    galleryPosition: z
+      .number()
+      .nullable()
+      .describe("1-based position in the offer gallery"),
+    galleryCount: z
+      .number()
+      .nullable()
+      .describe("Number of images in the gallery after the change"),
+  },
+  annotations: {
+    title: "Upload Offer Image",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (args, context) => {
+    if (Boolean(args.url) === Boolean(args.image)) {
+      return invalidInput("provide exactly one of url or image");
+    }
+    const decoded = args.image ? decodeImage(args.image) : undefined;
+    const problem =
+      decoded?.problem ??
+      (args.url ? await checkImageUrl(args.url) : undefined);
+    if (problem) {
+      return invalidInput(problem);
+    }
+    const allegro = requireAllegroClient(context);
+    const gallery = args.offerId
+      ? await loadGallery(allegro, args.offerId)
+      : undefined;
+    if (gallery && gallery.length >= MAX_GALLERY_IMAGES) {
+      return invalidInput(
+        `offer ${args.offerId} already has ${gallery.length} images`
+      );
+    }
+    const uploaded =
+      decoded?.bytes && decoded.mimeType
+        ? await uploadImageData(allegro, decoded.bytes, decoded.mimeType)
+        : await uploadImageFromUrl(allegro, args.url ?? "");
+    const hosted = {
+      url: uploaded.location,
+      expiresAt: uploaded.expiresAt ?? null,
+    };
+    if (!(gallery && args.offerId)) {
+      return {
+        content: [
+          { type: "text", text: `Uploaded image: ${uploaded.location}` },
+        ],
+        structuredContent: {
+          ...hosted,
+          offerId: null,
+          galleryPosition: null,
+          galleryCount: null,
+        },
+      };
+    }
+    const index = Math.min(
+      (args.position ?? gallery.length + 1) - 1,
+      gallery.length
+    );
+    const images = [...gallery];
+    images.splice(index, 0, uploaded.location);
+    await updateProductOffer(allegro, args.offerId, { images });
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Uploaded image ${uploaded.location} and added it to offer ${args.offerId} at position ${index + 1} of ${images.length}.`,
+        },
+      ],
+      structuredContent: {
+        ...hosted,
+        offerId: args.offerId,
+        galleryPosition: index + 1,
+        galleryCount: images.length,
+      },
+    };
+  },
+});
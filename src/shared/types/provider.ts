@@ -1,12 +1,14 @@
-export type { ProviderTokens } from "../storage/interface.js";
-
+import type { AllegroEnvironment } from "../config/allegro.js";
 import type { ProviderTokens } from "../storage/interface.js";
 
+export type { ProviderTokens } from "../storage/interface.js";
+
 export interface ProviderInfo {
   accessToken: string;
   refreshToken?: string;
   expiresAt?: number;
   scopes?: string[];
+  environment?: AllegroEnvironment;
 }
 
 export function toProviderInfo(tokens: ProviderTokens) {
@@ -15,6 +17,7 @@ export function toProviderInfo(tokens: ProviderTokens) {
     refreshToken: tokens.refresh_token,
     expiresAt: tokens.expires_at,
     scopes: tokens.scopes,
+    environment: tokens.environment,
   };
 }
 
@@ -31,5 +34,6 @@ export function toProviderTokens(info: ProviderInfo) {
     refresh_token: info.refreshToken,
     expires_at: info.expiresAt,
     scopes: info.scopes,
+    environment: info.environment,
   };
 }
@@ -0,0 +1,49 @@
+import { z } from "zod";
+import { base64DecodeBytes } from "./base64.js";
+import { matchesFileSignature } from "./file-signatures.js";
+
+const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+const ATTACHMENT_MIME_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/bmp",
+  "image/tiff",
+  "application/pdf",
+];
+
+export const attachmentInputSchema = z.object({
+  fileName: z.string().min(1).max(255).describe("File name"),
+  mimeType: z
+    .string()
+    .describe("MIME type: JPEG, PNG, GIF, BMP, TIFF image or PDF"),
+  data: z.string().min(1).describe("Base64-encoded file contents"),
+});
+
+export function decodeAttachment(
+  attachment: z.infer<typeof attachmentInputSchema>
+) {
+  const mimeType = attachment.mimeType.toLowerCase();
+  if (!ATTACHMENT_MIME_TYPES.includes(mimeType)) {
+    return {
+      problem: `${attachment.fileName}: unsupported type ${mimeType}; use ${ATTACHMENT_MIME_TYPES.join(", ")}`,
+    };
+  }
+  const bytes = base64DecodeBytes(attachment.data);
+  if (!bytes) {
+    return { problem: `${attachment.fileName}: data is not valid base64` };
+  }
+  if (bytes.length > MAX_ATTACHMENT_BYTES) {
+    return {
+      problem: `${attachment.fileName}: larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`,
+    };
+  }
+  if (!matchesFileSignature(mimeType, bytes)) {
+    return {
+      problem: `${attachment.fileName}: data does not look like ${mimeType}`,
+    };
+  }
+  return {
+    file: { fileName: attachment.fileName, mimeType, data: bytes },
+  };
+}
@@ -1,3 +1,6 @@
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+const WHITESPACE_PATTERN = /\s/g;
+
 export function base64Encode(input: string) {
   if (typeof Buffer !== "undefined") {
     return Buffer.from(input, "utf8").toString("base64");
@@ -71,3 +74,14 @@ export function base64UrlDecodeJson<T = unknown>(value: string) {
     return null;
   }
 }
+
+export function base64DecodeBytes(input: string) {
+  const data = input.replace(WHITESPACE_PATTERN, "");
+  if (!BASE64_PATTERN.test(data)) {
+    return null;
+  }
+  if (typeof Buffer !== "undefined") {
+    return new Uint8Array(Buffer.from(data, "base64"));
+  }
+  return Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+}
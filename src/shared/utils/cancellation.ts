@@ -74,3 +74,21 @@ export function withCancellation<T>(
       });
   });
 }
+
+export function delay(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancellationError());
+      return;
+    }
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new CancellationError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,12 @@
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export function toTimestamp(value: string, endOfDay: boolean) {
+  if (DATE_ONLY.test(value)) {
+    return `${value}T${endOfDay ? "23:59:59.999" : "00:00:00.000"}Z`;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return date.toISOString();
+}
@@ -1,5 +1,5 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { z } from "zod";
+import { ElicitResultSchema } from "@modelcontextprotocol/sdk/types.js";
 import { getLowLevelServer } from "../mcp/server-internals.js";
 import { logger } from "./logger.js";
 
@@ -102,13 +102,6 @@ export interface ElicitResult {
   content?: Record<string, string | number | boolean | string[]>;
 }
 
-export const ElicitResultSchema = z.object({
-  action: z.enum(["accept", "decline", "cancel"]),
-  content: z
-    .record(z.union([z.string(), z.number(), z.boolean(), z.array(z.string())]))
-    .optional(),
-});
-
 export function validateElicitationSchema(schema: ElicitationSchema) {
   if (schema.type !== "object") {
     throw new Error('Elicitation schema must have type: "object" at root');
@@ -185,14 +178,17 @@ export async function elicitForm(
     if (!lowLevel.request) {
       throw new Error("Server does not support client requests");
     }
-    const response = (await lowLevel.request({
-      method: "elicitation/create",
-      params: {
-        mode: "form",
-        message: request.message,
-        requestedSchema: request.requestedSchema,
+    const response = (await lowLevel.request(
+      {
+        method: "elicitation/create",
+        params: {
+          mode: "form",
+          message: request.message,
+          requestedSchema: request.requestedSchema,
+        },
       },
-    })) as ElicitResult;
+      ElicitResultSchema
+    )) as ElicitResult;
     logger.info("elicitation", {
       message: "Form elicitation completed",
       action: response.action,
@@ -227,15 +223,18 @@ export async function elicitUrl(
     if (!lowLevel.request) {
       throw new Error("Server does not support client requests");
     }
-    const response = (await lowLevel.request({
-      method: "elicitation/create",
-      params: {
-        mode: "url",
-        message: request.message,
-        elicitationId: request.elicitationId,
-        url: request.url,
+    const response = (await lowLevel.request(
+      {
+        method: "elicitation/create",
+        params: {
+          mode: "url",
+          message: request.message,
+          elicitationId: request.elicitationId,
+          url: request.url,
+        },
       },
-    })) as ElicitResult;
+      ElicitResultSchema
+    )) as ElicitResult;
     logger.info("elicitation", {
       message: "URL elicitation completed",
       action: response.action,
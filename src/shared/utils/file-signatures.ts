@@ -0,0 +1,18 @@
+const FILE_SIGNATURES: Record<string, (bytes: Uint8Array) => boolean> = {
+  "image/jpeg": (b) => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff,
+  "image/png": (b) =>
+    b[0] === 0x89 && b[1] === 0x50 && b[2] === 0x4e && b[3] === 0x47,
+  "image/gif": (b) => b[0] === 0x47 && b[1] === 0x49 && b[2] === 0x46,
+  "image/webp": (b) =>
+    String.fromCharCode(...b.subarray(0, 4)) === "RIFF" &&
+    String.fromCharCode(...b.subarray(8, 12)) === "WEBP",
+  "image/bmp": (b) => b[0] === 0x42 && b[1] === 0x4d,
+  "image/tiff": (b) =>
+    (b[0] === 0x49 && b[1] === 0x49) || (b[0] === 0x4d && b[1] === 0x4d),
+  "application/pdf": (b) =>
+    String.fromCharCode(...b.subarray(0, 5)) === "%PDF-",
+};
+
+export function matchesFileSignature(mimeType: string, bytes: Uint8Array) {
+  return FILE_SIGNATURES[mimeType]?.(bytes) ?? false;
+}
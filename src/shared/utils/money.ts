@@ -0,0 +1,14 @@
+import { z } from "zod";
+
+export const moneySchema = z.object({
+  amount: z.string(),
+  currency: z.string(),
+});
+
+export function roundMoney(amount: number) {
+  return Math.round(amount * 100) / 100;
+}
+
+export function sumMoney(amounts: number[]) {
+  return roundMoney(amounts.reduce((sum, amount) => sum + amount, 0));
+}
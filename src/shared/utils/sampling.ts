@@ -1,4 +1,8 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  CreateMessageResultSchema,
+  CreateMessageResultWithToolsSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 import {
   getLowLevelServer,
   isJsonRpcError,
@@ -97,20 +101,25 @@ export async function requestSampling(
         );
       }
     }
-    const response = (await lowLevel.request({
-      method: "sampling/createMessage",
-      params: {
-        messages: request.messages,
-        maxTokens: request.maxTokens,
-        modelPreferences: request.modelPreferences,
-        systemPrompt: request.systemPrompt,
-        temperature: request.temperature,
-        stopSequences: request.stopSequences,
-        metadata: request.metadata,
-        tools: request.tools,
-        toolChoice: request.toolChoice,
+    const response = (await lowLevel.request(
+      {
+        method: "sampling/createMessage",
+        params: {
+          messages: request.messages,
+          maxTokens: request.maxTokens,
+          modelPreferences: request.modelPreferences,
+          systemPrompt: request.systemPrompt,
+          temperature: request.temperature,
+          stopSequences: request.stopSequences,
+          metadata: request.metadata,
+          tools: request.tools,
+          toolChoice: request.toolChoice,
+        },
       },
-    })) as CreateMessageResponse;
+      request.tools || request.toolChoice
+        ? CreateMessageResultWithToolsSchema
+        : CreateMessageResultSchema
+    )) as CreateMessageResponse;
     logger.info("sampling", {
       message: "Received LLM response from client",
       model: response.model,